@@ -14,7 +14,10 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import UploadPage from "@/pages/upload";
-import ResultsPage from "@/pages/results";
+import DocumentPage from "@/pages/document";
+import SearchPage from "@/pages/search";
+import HistoryPage from "@/pages/history";
+import BatchPage from "@/pages/batch";
 import NotFound from "@/pages/not-found";
 
 /**
@@ -25,7 +28,10 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={UploadPage} />           {/* File upload page */}
-      <Route path="/results" component={ResultsPage} />   {/* Results display page */}
+      <Route path="/documents/:id" component={DocumentPage} /> {/* Processed document page */}
+      <Route path="/batches/:id" component={BatchPage} />  {/* Documents of a ZIP upload */}
+      <Route path="/history" component={HistoryPage} />   {/* Processed documents table */}
+      <Route path="/search" component={SearchPage} />     {/* Document search page */}
       <Route component={NotFound} />                      {/* 404 fallback page */}
     </Switch>
   );
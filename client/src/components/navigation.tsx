@@ -3,7 +3,7 @@
  * 
  * Provides:
  * - Application branding with icon and title
- * - Navigation links between upload and results pages
+ * - Navigation links between upload, history, search and the last opened document
  * - Active state highlighting for current page
  * - Responsive design with mobile-friendly layout
  */
@@ -11,12 +11,16 @@
 import { Link, useLocation } from "wouter";
 import { FileText } from "lucide-react";
 
+// Session storage key of the document opened last, which the Results link opens
+export const LAST_DOCUMENT_KEY = "lastDocumentId";
+
 /**
  * Main navigation bar component
  * Displays at the top of every page with consistent branding and navigation
  */
 export default function Navigation() {
   const [location] = useLocation(); // Get current route for active state
+  const lastDocumentId = sessionStorage.getItem(LAST_DOCUMENT_KEY); // Document the Results link opens
   
   return (
     <nav className="bg-white shadow-sm border-b border-slate-200">
@@ -39,13 +43,34 @@ export default function Navigation() {
                 Upload
               </button>
             </Link>
-            <Link href="/results">
+            {/* Shown once a document has been opened in this tab */}
+            {lastDocumentId && (
+              <Link href={`/documents/${lastDocumentId}`}>
+                <button className={`font-medium ${
+                  location.startsWith('/documents/') 
+                    ? 'text-slate-800' // Active state
+                    : 'text-slate-600 hover:text-slate-800' // Inactive state with hover
+                }`}>
+                  Results
+                </button>
+              </Link>
+            )}
+            <Link href="/history">
+              <button className={`font-medium ${
+                location === '/history' 
+                  ? 'text-slate-800' // Active state
+                  : 'text-slate-600 hover:text-slate-800' // Inactive state with hover
+              }`}>
+                History
+              </button>
+            </Link>
+            <Link href="/search">
               <button className={`font-medium ${
-                location === '/results' 
+                location === '/search' 
                   ? 'text-slate-800' // Active state
                   : 'text-slate-600 hover:text-slate-800' // Inactive state with hover
               }`}>
-                Results
+                Search
               </button>
             </Link>
           </div>
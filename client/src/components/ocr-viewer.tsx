@@ -0,0 +1,153 @@
+/**
+ * OCR overlay viewer for a single document page
+ *
+ * Provides:
+ * - The original page image with every recognised word outlined
+ * - Outlines colour-coded by OCR confidence
+ * - The recognised text, word by word, linked to the outlines:
+ *   selecting a word in either place highlights it in both
+ */
+
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { DocumentPage, OcrWord } from "@shared/schema";
+
+interface OcrViewerProps {
+  documentId: number;
+  pageNumber: number; // 1-based page to show
+}
+
+/**
+ * A recognised word with its position in the page's reading order
+ */
+interface IndexedWord extends OcrWord {
+  index: number;
+}
+
+/**
+ * Outline and fill colours for a word's confidence score
+ */
+function confidenceColor(confidence: number): string {
+  if (confidence >= 85) return "border-emerald-500 bg-emerald-500/10";
+  if (confidence >= 60) return "border-amber-500 bg-amber-500/15";
+  return "border-red-500 bg-red-500/20";
+}
+
+/**
+ * Page image with OCR word outlines and the linked recognised text
+ * Render with a key per page so the selection starts afresh on each page
+ */
+export default function OcrViewer({ documentId, pageNumber }: OcrViewerProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null); // Natural image size
+  const [selected, setSelected] = useState<number | null>(null); // Index of the selected word
+  const wordRefs = useRef<Map<number, HTMLSpanElement>>(new Map()); // Text spans, by word index
+
+  // Page with its OCR layout
+  const { data: page, isLoading } = useQuery<DocumentPage>({
+    queryKey: [`/api/document/${documentId}/pages/${pageNumber}`],
+  });
+
+  // Number the words in reading order, keeping them grouped by line
+  let nextIndex = 0;
+  const lines = (page?.layout?.lines ?? []).map((line) =>
+    line.words.map((word): IndexedWord => ({ ...word, index: nextIndex++ })),
+  );
+  const words = lines.flat();
+
+  /**
+   * Select a word from its outline and bring it into view in the text
+   */
+  const selectFromImage = (index: number) => {
+    setSelected(index);
+    wordRefs.current.get(index)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="animate-spin w-8 h-8 text-primary-500 mx-auto" />
+      </div>
+    );
+  }
+
+  if (!page?.layout) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Page image with word outlines, positioned relative to its natural size */}
+      <div className="relative border border-slate-200 rounded-lg overflow-hidden bg-slate-100 self-start">
+        <img
+          src={`/api/document/${documentId}/pages/${pageNumber}/image`}
+          alt={`Page ${pageNumber}`}
+          className="w-full h-auto block"
+          onLoad={(e) => setSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight,
+          })}
+        />
+        {size && words.map((word) => (
+          <button
+            key={word.index}
+            type="button"
+            title={`${word.text} (${Math.round(word.confidence)}%)`}
+            onClick={() => selectFromImage(word.index)}
+            className={`absolute border ${confidenceColor(word.confidence)} ${
+              selected === word.index ? "ring-2 ring-primary" : ""
+            }`}
+            style={{
+              left: `${(word.bbox.x0 / size.width) * 100}%`,
+              top: `${(word.bbox.y0 / size.height) * 100}%`,
+              width: `${((word.bbox.x1 - word.bbox.x0) / size.width) * 100}%`,
+              height: `${((word.bbox.y1 - word.bbox.y0) / size.height) * 100}%`,
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Recognised text, one clickable span per word */}
+      <div className="space-y-3">
+        <div className="bg-slate-50 rounded-lg p-4 max-h-96 overflow-y-auto font-mono text-sm text-slate-700 leading-relaxed">
+          {lines.map((line, lineIndex) => (
+            <div key={lineIndex}>
+              {line.map((word) => (
+                <span key={word.index}>
+                  <span
+                    ref={(element) => {
+                      if (element) wordRefs.current.set(word.index, element);
+                      else wordRefs.current.delete(word.index);
+                    }}
+                    onClick={() => setSelected(word.index)}
+                    className={`cursor-pointer rounded px-0.5 ${
+                      selected === word.index ? "bg-primary-50 text-primary-600" : "hover:bg-slate-200"
+                    }`}
+                  >
+                    {word.text}
+                  </span>{" "}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 border border-emerald-500 bg-emerald-500/10" /> 85% and above
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 border border-amber-500 bg-amber-500/15" /> 60–84%
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 border border-red-500 bg-red-500/20" /> Below 60%
+          </span>
+          {selected !== null && words[selected] && (
+            <span className="ml-auto">
+              "{words[selected].text}" · {Math.round(words[selected].confidence)}% confidence
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
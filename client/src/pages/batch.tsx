@@ -0,0 +1,175 @@
+/**
+ * Batch page component listing the documents made from one ZIP upload
+ *
+ * Features:
+ * - Loads the batch named in the URL (/batches/:id)
+ * - Table of the batch's documents, with click-through to each document page
+ * - List of the archive's files that were skipped, with the reason for each
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { AlertCircle, Archive, FileX, Loader2 } from "lucide-react";
+import type { ArchiveMode, ScanStatus, SkippedEntry } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import Navigation from "@/components/navigation";
+
+// Descriptions of how the archive was turned into documents
+const MODE_LABELS: Record<ArchiveMode, string> = {
+  separate: "One document per file",
+  combined: "One combined document",
+};
+
+/**
+ * A batch as returned by GET /api/batches/:id
+ */
+interface BatchResult {
+  id: number;
+  fileName: string; // Name of the uploaded archive
+  mode: ArchiveMode;
+  skippedEntries: SkippedEntry[];
+  createdAt: string;
+  documents: {
+    id: number;
+    fileName: string; // Path of the file within the archive, or the archive for combined batches
+    fileType: string;
+    pageCount: number | null;
+    confidence: number | null;
+    scanStatus: ScanStatus;
+  }[];
+}
+
+/**
+ * Main batch page component
+ * Loads the batch given by the route's id parameter
+ */
+export default function BatchPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation(); // Navigation hook
+
+  const { data: batch, isLoading, error } = useQuery<BatchResult>({
+    queryKey: [`/api/batches/${id}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="py-16 text-center">
+          <Loader2 className="animate-spin w-8 h-8 text-primary-500 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !batch) {
+    // Query errors carry the response status as a "404: ..." prefix
+    const notFound = error?.message.startsWith("404");
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">
+            {notFound ? "Batch Not Found" : "Could Not Load Batch"}
+          </h2>
+          <p className="text-slate-600">
+            {notFound ? `There is no batch #${id}.` : error?.message || "Please try again."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary-50 rounded-full mb-4">
+            <Archive className="text-primary-500 text-2xl" />
+          </div>
+          <h2 className="text-3xl font-bold text-slate-800 mb-2">{batch.fileName}</h2>
+          <p className="text-slate-600">
+            {MODE_LABELS[batch.mode]} · {batch.documents.length} document{batch.documents.length === 1 ? "" : "s"}
+            {batch.skippedEntries.length > 0 && ` · ${batch.skippedEntries.length} skipped`}
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Pages</TableHead>
+                    <TableHead>OCR confidence</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batch.documents.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="py-8 text-center text-slate-600">
+                        No file in the archive could be processed.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    batch.documents.map((document) => (
+                      <TableRow
+                        key={document.id}
+                        className="cursor-pointer"
+                        onClick={() => setLocation(`/documents/${document.id}`)}
+                      >
+                        <TableCell className="font-medium text-slate-800 max-w-[20rem] truncate" title={document.fileName}>
+                          {document.fileName}
+                          {document.scanStatus === "quarantined" && (
+                            <Badge variant="destructive" className="ml-2">Quarantined</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{document.pageCount ?? "—"}</TableCell>
+                        <TableCell>
+                          {document.confidence != null ? `${Math.round(document.confidence)}%` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Files of the archive that did not become documents */}
+          {batch.skippedEntries.length > 0 && (
+            <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+              <CardContent className="p-6">
+                <h3 className="text-xl font-semibold text-slate-800 mb-4 flex items-center">
+                  <FileX className="mr-3 text-slate-500" />
+                  Skipped Files
+                </h3>
+                <ul className="divide-y divide-slate-200">
+                  {batch.skippedEntries.map((entry) => (
+                    <li key={entry.path} className="py-3">
+                      <p className="font-medium text-slate-800 break-all">{entry.path}</p>
+                      <p className="text-sm text-slate-500">{entry.reason}</p>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
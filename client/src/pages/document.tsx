@@ -0,0 +1,435 @@
+/**
+ * Document page component for displaying a processed document
+ * 
+ * Features:
+ * - Loads the document named in the URL (/documents/:id), so results can
+ *   be bookmarked, shared and reopened
+ * - Display user's personal information (name, age)
+ * - Show extracted text content from the uploaded document
+ * - Page through multi-page documents one page at a time
+ * - Show OCR confidence so low-quality extractions can be double-checked
+ * - Compare OCR'd pages with the original image, word by word
+ * - Link to the batch of documents from the same ZIP upload
+ * - Copy text to clipboard functionality
+ * - Download results as text file
+ * - Navigation back to upload page for processing another document
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Check, User, FileText, Upload, Download, Copy, ScanText, ShieldAlert, AlertCircle, Loader2 } from "lucide-react";
+import {
+  languageNames,
+  preprocessingStepLabels,
+  type DocumentPageSummary,
+  type PreprocessingStep,
+  type ScanStatus,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useToast } from "@/hooks/use-toast";
+import Navigation, { LAST_DOCUMENT_KEY } from "@/components/navigation";
+import OcrViewer from "@/components/ocr-viewer";
+
+/**
+ * Interface for a processed document returned by GET /api/document/:id
+ */
+interface ProcessingResult {
+  id: number;
+  fullName: string;
+  age: number;
+  extractedText: string;
+  fileName: string;
+  fileType: string;
+  pageCount?: number | null; // Number of pages, for paged formats
+  ocrPages?: number[] | null; // Pages read with OCR instead of the text layer
+  confidence?: number | null; // Mean OCR word confidence (0-100), when OCR was used
+  ocrLanguage?: string | null; // Tesseract language(s) used for OCR, e.g. "eng+afr"
+  detectedLanguages?: string[] | null; // Languages detected in the text, main language first
+  preprocessing?: PreprocessingStep[] | null; // Image preprocessing steps applied before OCR
+  duplicateOf?: number | null; // Earlier document whose extraction was reused
+  scanStatus?: ScanStatus; // Malware scan outcome of the uploaded file
+  scanThreat?: string | null; // Malware found, when the file was quarantined
+  batchId?: number | null; // Batch of the ZIP upload the document came from
+}
+
+// File type of documents combining every file of a ZIP upload, which have no page images
+const ARCHIVE_FILE_TYPE = "application/zip";
+
+/**
+ * Badge styling for an OCR confidence score
+ * Scores below 60 are usually worth checking against the original
+ */
+function confidenceClass(confidence: number): string {
+  if (confidence >= 85) return "bg-emerald-100 text-emerald-700 hover:bg-emerald-100";
+  if (confidence >= 60) return "bg-amber-100 text-amber-700 hover:bg-amber-100";
+  return "bg-red-100 text-red-700 hover:bg-red-100";
+}
+
+/**
+ * Full-page message shown instead of a document that cannot be displayed
+ */
+function DocumentMessage({ title, description }: { title: string; description: string }) {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{title}</h2>
+        <p className="text-slate-600 mb-6">{description}</p>
+        <Button onClick={() => setLocation("/")} className="bg-primary-500 hover:bg-primary-600 text-white">
+          <Upload className="mr-2 h-4 w-4" />
+          Upload a Document
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Document page component that displays processing results
+ * Loads the document given by the route's id parameter
+ */
+export default function DocumentPage() {
+  const { id } = useParams<{ id: string }>();
+  const [pageIndex, setPageIndex] = useState(0); // Index of the page being shown
+  const [, setLocation] = useLocation(); // Navigation hook
+  const { toast } = useToast(); // Toast notification system
+
+  // The document itself
+  const { data: result, isLoading, error } = useQuery<ProcessingResult>({
+    queryKey: [`/api/document/${id}`],
+  });
+
+  // Per-page extraction results, fetched once the document is known
+  const { data: pagesData } = useQuery<{ pages: DocumentPageSummary[] }>({
+    queryKey: [`/api/document/${id}/pages`],
+    enabled: result !== undefined,
+  });
+  const pages = pagesData?.pages ?? [];
+  const currentPage = pages[pageIndex];
+
+  // Start at the first page whenever another document is opened
+  useEffect(() => {
+    setPageIndex(0);
+  }, [id]);
+
+  // Remember the document for the navigation bar's Results link
+  useEffect(() => {
+    if (result) {
+      sessionStorage.setItem(LAST_DOCUMENT_KEY, String(result.id));
+    }
+  }, [result]);
+
+  /**
+   * Navigate back to upload page for processing another document
+   */
+  const handleProcessAnother = () => {
+    setLocation("/");
+  };
+
+  /**
+   * Copy extracted text to clipboard using the Clipboard API
+   * Shows success/error notifications
+   */
+  const handleCopyText = async () => {
+    if (result?.extractedText) {
+      try {
+        await navigator.clipboard.writeText(result.extractedText);
+        toast({
+          title: "Text copied",
+          description: "Extracted text has been copied to clipboard.",
+        });
+      } catch (error) {
+        toast({
+          title: "Copy failed",
+          description: "Failed to copy text to clipboard.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  /**
+   * Generate and download a text file containing all processing results
+   * Creates a formatted report with personal info and extracted text
+   */
+  const handleDownloadResults = () => {
+    if (!result) return;
+
+    // Create formatted content for the download file
+    const content = `Document Processing Results
+================================
+
+Personal Information:
+- Full Name: ${result.fullName}
+- Age: ${result.age} years old
+- Document: ${result.fileName}
+
+Extracted Text:
+${result.extractedText}
+
+Generated on: ${new Date().toLocaleString()}
+`;
+
+    // Create and trigger download using Blob API
+    const blob = new Blob([content], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `document-results-${result.id}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url); // Clean up memory
+
+    toast({
+      title: "Download started",
+      description: "Results file has been downloaded.",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="py-16 text-center">
+          <Loader2 className="animate-spin w-8 h-8 text-primary-500 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  // Query errors carry the response status as a "404: ..." prefix
+  if (error?.message.startsWith("404")) {
+    return (
+      <DocumentMessage
+        title="Document Not Found"
+        description={`There is no document #${id}. It may have been removed, or the link may be wrong.`}
+      />
+    );
+  }
+
+  if (error || !result) {
+    return (
+      <DocumentMessage
+        title="Could Not Load Document"
+        description={error?.message || "The document could not be loaded. Please try again."}
+      />
+    );
+  }
+
+  // Infected uploads are kept for inspection but have nothing to show
+  if (result.scanStatus === "quarantined") {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <ShieldAlert className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">File Quarantined</h2>
+          <p className="text-slate-600">
+            Malware ({result.scanThreat}) was found in {result.fileName}, so it was not processed.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+      
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-emerald-100 rounded-full mb-4">
+            <Check className="text-emerald-600 text-2xl" />
+          </div>
+          <h2 className="text-3xl font-bold text-slate-800 mb-2">Processing Complete</h2>
+          <p className="text-slate-600">Your document has been successfully processed. Here are the results:</p>
+        </div>
+
+        <div className="space-y-6">
+          {/* Personal Information Results */}
+          <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+            <CardContent className="p-6">
+              <h3 className="text-xl font-semibold text-slate-800 mb-4 flex items-center">
+                <User className="mr-3 text-primary-500" />
+                Personal Information
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-500">Full Name</label>
+                  <p className="text-lg font-semibold text-slate-800">{result.fullName}</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-500">Calculated Age</label>
+                  <p className="text-lg font-semibold text-slate-800">{result.age} years old</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Extracted Text Results */}
+          <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+            <CardContent className="p-6">
+              <h3 className="text-xl font-semibold text-slate-800 mb-4 flex items-center">
+                <FileText className="mr-3 text-primary-500" />
+                Extracted Text Content
+                <span className="ml-auto flex flex-wrap justify-end gap-2">
+                  {/* Languages detected in the text, main language first */}
+                  {result.detectedLanguages?.map((code) => (
+                    <Badge key={code} variant="outline" className="text-slate-600">
+                      {languageNames[code] ?? code}
+                    </Badge>
+                  ))}
+                  {result.confidence != null && (
+                    <Badge className={confidenceClass(result.confidence)}>
+                      {Math.round(result.confidence)}% OCR confidence
+                    </Badge>
+                  )}
+                </span>
+              </h3>
+              {/* Multi-page documents are shown one page at a time */}
+              {pages.length > 1 && currentPage && (
+                <div className="mb-3 flex items-center justify-between text-sm text-slate-500">
+                  <span>
+                    Page {currentPage.pageNumber} of {pages.length} · {currentPage.charCount} characters
+                  </span>
+                  {currentPage.method === "ocr" && currentPage.confidence != null ? (
+                    <Badge className={confidenceClass(currentPage.confidence)}>
+                      OCR · {Math.round(currentPage.confidence)}%
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      {currentPage.method === "ocr" ? "OCR" : "Text layer"}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              <div className="bg-slate-50 rounded-lg p-4 max-h-96 overflow-y-auto">
+                <pre className="text-sm text-slate-700 whitespace-pre-wrap font-mono leading-relaxed">
+                  {(pages.length > 1 && currentPage ? currentPage.text : result.extractedText) ||
+                    "No text could be extracted from the document."}
+                </pre>
+              </div>
+              {pages.length > 1 && (
+                <Pagination className="mt-4">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        aria-disabled={pageIndex === 0}
+                        className={pageIndex === 0 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPageIndex((index) => Math.max(0, index - 1));
+                        }}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <span className="px-4 text-sm text-slate-600">
+                        {pageIndex + 1} / {pages.length}
+                      </span>
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        aria-disabled={pageIndex === pages.length - 1}
+                        className={pageIndex === pages.length - 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPageIndex((index) => Math.min(pages.length - 1, index + 1));
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+              <div className="mt-4 flex items-center justify-between text-sm text-slate-500">
+                <span>
+                  {result.extractedText.length} characters extracted
+                  {/* Note which pages of a scanned PDF had to be OCR'd */}
+                  {!result.fileType.startsWith("image/") && result.ocrPages && result.ocrPages.length > 0 && (
+                    <> · OCR used on page{result.ocrPages.length > 1 ? "s" : ""} {result.ocrPages.join(", ")} of {result.pageCount}</>
+                  )}
+                  {result.ocrLanguage && <> · OCR language: {result.ocrLanguage}</>}
+                  {result.duplicateOf && <> · Same file as document #{result.duplicateOf}; its text was reused</>}
+                  {result.batchId && (
+                    <>
+                      {" · From "}
+                      <Link href={`/batches/${result.batchId}`} className="text-primary-500 hover:text-primary-600">
+                        batch #{result.batchId}
+                      </Link>
+                    </>
+                  )}
+                  {result.preprocessing && result.preprocessing.length > 0 && (
+                    <> · Image preparation: {result.preprocessing.map((step) => preprocessingStepLabels[step]).join(", ")}</>
+                  )}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCopyText}
+                  className="text-primary-500 hover:text-primary-600 font-medium"
+                >
+                  <Copy className="mr-1 h-4 w-4" />
+                  Copy Text
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* OCR overlay for the page being shown */}
+          {currentPage?.method === "ocr" && result.fileType !== ARCHIVE_FILE_TYPE && (
+            <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+              <CardContent className="p-6">
+                <h3 className="text-xl font-semibold text-slate-800 mb-4 flex items-center">
+                  <ScanText className="mr-3 text-primary-500" />
+                  Recognised Words
+                  {pages.length > 1 && (
+                    <span className="ml-2 text-base font-normal text-slate-500">· Page {currentPage.pageNumber}</span>
+                  )}
+                </h3>
+                <OcrViewer
+                  key={currentPage.pageNumber}
+                  documentId={result.id}
+                  pageNumber={currentPage.pageNumber}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button
+              onClick={handleProcessAnother}
+              className="flex-1 bg-primary-500 hover:bg-primary-600 text-white font-semibold py-3 px-6 h-auto"
+            >
+              <Upload className="mr-2 h-5 w-5" />
+              Process Another Document
+            </Button>
+            <Button
+              onClick={handleDownloadResults}
+              variant="outline"
+              className="flex-1 bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold py-3 px-6 h-auto border-slate-300"
+            >
+              <Download className="mr-2 h-5 w-5" />
+              Download Results
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * History page component listing every processed document
+ *
+ * Features:
+ * - Table of documents with name, age, file name, type and processed date
+ * - Sorting by any column, toggling direction on repeated clicks
+ * - Search box filtering by name or file name as you type
+ * - Page-by-page navigation through the listing API's cursors
+ * - Click-through from each row to its document page
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2, Search } from "lucide-react";
+import type { DocumentSortColumn } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import Navigation from "@/components/navigation";
+
+// Documents shown per page
+const PAGE_SIZE = 20;
+
+// Delay after the last keystroke before the search box filters the table
+const SEARCH_DELAY_MS = 300;
+
+// Table columns, in display order
+const COLUMNS: { key: DocumentSortColumn; label: string }[] = [
+  { key: "fullName", label: "Name" },
+  { key: "age", label: "Age" },
+  { key: "fileName", label: "File" },
+  { key: "fileType", label: "Type" },
+  { key: "createdAt", label: "Processed" },
+];
+
+// Short names of the document formats, by MIME type
+const FILE_TYPE_LABELS: Record<string, string> = {
+  "application/pdf": "PDF",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "DOCX",
+  "application/vnd.oasis.opendocument.text": "ODT",
+};
+
+/**
+ * A row of the documents table, as returned by GET /api/documents
+ */
+interface DocumentRow {
+  id: number;
+  fullName: string;
+  age: number;
+  fileName: string;
+  fileType: string;
+  createdAt: string;
+}
+
+/**
+ * Short display name of a MIME type, e.g. "PDF" or "PNG"
+ */
+function fileTypeLabel(fileType: string): string {
+  return FILE_TYPE_LABELS[fileType] ?? fileType.split("/").pop()!.toUpperCase();
+}
+
+/**
+ * Main history page component
+ * Lists documents one page at a time in the chosen order
+ */
+export default function HistoryPage() {
+  const [input, setInput] = useState(""); // Text currently in the search box
+  const [search, setSearch] = useState(""); // Search text the table is filtered by
+  const [sortBy, setSortBy] = useState<DocumentSortColumn>("createdAt");
+  const [sort, setSort] = useState<"asc" | "desc">("desc");
+  const [cursors, setCursors] = useState<(string | null)[]>([null]); // Cursor of each page visited so far
+  const [pageIndex, setPageIndex] = useState(0); // Index into cursors of the page shown
+  const [, setLocation] = useLocation(); // Navigation hook
+
+  /**
+   * Go back to the first page
+   * Cursors belong to one order and filter, so this must happen in the same
+   * update that changes either; otherwise a query would pair an old cursor
+   * with the new order, which the server rejects
+   */
+  const resetPages = () => {
+    setCursors([null]);
+    setPageIndex(0);
+  };
+
+  // Filter once typing pauses, rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const text = input.trim();
+      if (text === search) return;
+      setSearch(text);
+      resetPages();
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [input, search]);
+
+  const params = new URLSearchParams({ sortBy, sort, limit: String(PAGE_SIZE) });
+  if (search) params.set("q", search);
+  const cursor = cursors[pageIndex];
+  if (cursor) params.set("cursor", cursor);
+
+  const { data, isFetching, error } = useQuery<{ documents: DocumentRow[]; nextCursor: string | null }>({
+    queryKey: [`/api/documents?${params}`],
+    staleTime: 0, // New uploads should appear when the page is revisited
+  });
+
+  /**
+   * Order by a column, or reverse the order when it is already the sort column
+   * Text columns start ascending; age and date start with the highest first
+   */
+  const handleSort = (column: DocumentSortColumn) => {
+    if (column === sortBy) {
+      setSort((direction) => (direction === "asc" ? "desc" : "asc"));
+    } else {
+      setSortBy(column);
+      setSort(column === "age" || column === "createdAt" ? "desc" : "asc");
+    }
+    resetPages();
+  };
+
+  /**
+   * Move to the following page, remembering its cursor for the way back
+   */
+  const handleNext = () => {
+    if (!data?.nextCursor) return;
+    setCursors((visited) => [...visited.slice(0, pageIndex + 1), data.nextCursor]);
+    setPageIndex((index) => index + 1);
+  };
+
+  const sortIcon = (column: DocumentSortColumn) => {
+    if (column !== sortBy) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-40" />;
+    return sort === "asc" ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+  };
+
+  const hasPrevious = pageIndex > 0;
+  const hasNext = Boolean(data?.nextCursor);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-800 mb-2">Document History</h2>
+          <p className="text-slate-600 max-w-2xl mx-auto">
+            Every processed document. Click a column to sort by it, or a row to open the document.
+          </p>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Filter by name or file name"
+            className="pl-9 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+
+        <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(({ key, label }) => (
+                    <TableHead key={key}>
+                      <button
+                        type="button"
+                        onClick={() => handleSort(key)}
+                        className="inline-flex items-center font-medium hover:text-slate-800"
+                      >
+                        {label}
+                        {sortIcon(key)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isFetching && !data ? (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length} className="py-8 text-center">
+                      <Loader2 className="animate-spin w-6 h-6 text-primary-500 mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length} className="py-8 text-center text-red-500">
+                      {(error as Error).message}
+                    </TableCell>
+                  </TableRow>
+                ) : data && data.documents.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length} className="py-8 text-center text-slate-600">
+                      {search ? `No documents match "${search}".` : "No documents have been processed yet."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.documents.map((document) => (
+                    <TableRow
+                      key={document.id}
+                      className="cursor-pointer"
+                      onClick={() => setLocation(`/documents/${document.id}`)}
+                    >
+                      <TableCell className="font-medium text-slate-800">{document.fullName}</TableCell>
+                      <TableCell>{document.age}</TableCell>
+                      <TableCell className="max-w-[14rem] truncate" title={document.fileName}>
+                        {document.fileName}
+                      </TableCell>
+                      <TableCell>{fileTypeLabel(document.fileType)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(document.createdAt).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {(hasPrevious || hasNext) && (
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={!hasPrevious}
+                  className={hasPrevious ? "cursor-pointer" : "pointer-events-none opacity-50"}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPageIndex((index) => Math.max(0, index - 1));
+                  }}
+                />
+              </PaginationItem>
+              <PaginationItem>
+                <span className="px-4 text-sm text-slate-600">Page {pageIndex + 1}</span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={!hasNext}
+                  className={hasNext ? "cursor-pointer" : "pointer-events-none opacity-50"}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleNext();
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
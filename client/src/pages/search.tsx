@@ -0,0 +1,143 @@
+/**
+ * Search page component for finding previously processed documents
+ *
+ * Features:
+ * - Full-text search over names, file names and extracted text
+ * - Support for "quoted phrases"
+ * - Ranked results with highlighted snippets
+ * - Click-through from each hit to its document
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Search, FileText, Image, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import Navigation from "@/components/navigation";
+
+/**
+ * Interface for a single hit returned by the search API
+ */
+interface SearchResult {
+  id: number;
+  fullName: string;
+  fileName: string;
+  fileType: string;
+  createdAt: string;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Render a snippet, turning <mark>…</mark> markers into highlighted spans
+ * Text is rendered as plain React children, never as HTML
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <p className="text-sm text-slate-600 leading-relaxed">
+      {parts.map((part, index) =>
+        // Odd-numbered parts sit between a start and end marker
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-slate-800 rounded px-0.5">{part}</mark>
+        ) : (
+          <span key={index}>{part}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * Main search page component
+ * Runs a search when the form is submitted and lists the ranked hits
+ */
+export default function SearchPage() {
+  const [input, setInput] = useState(""); // Text currently in the search box
+  const [query, setQuery] = useState(""); // Last submitted query
+  const [, setLocation] = useLocation(); // Navigation hook
+
+  // Search results for the submitted query
+  const { data, isFetching, error } = useQuery<{ results: SearchResult[] }>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}`],
+    enabled: query.length > 0,
+  });
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim());
+  };
+
+  const getFileIcon = (fileType: string) => {
+    if (fileType === "application/pdf") {
+      return <FileText className="text-red-500 h-5 w-5 shrink-0" />;
+    }
+    return <Image className="text-blue-500 h-5 w-5 shrink-0" />;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-800 mb-2">Search Documents</h2>
+          <p className="text-slate-600 max-w-2xl mx-auto">
+            Find processed documents by name, file name or content. Use quotes to search for an exact phrase.
+          </p>
+        </div>
+
+        <form onSubmit={onSubmit} className="flex gap-3 mb-6">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='e.g. invoice "due date"'
+            className="focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <Button type="submit" className="bg-primary-500 hover:bg-primary-600 text-white">
+            <Search className="mr-2 h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        {isFetching ? (
+          <div className="text-center py-8">
+            <Loader2 className="animate-spin w-8 h-8 text-primary-500 mx-auto" />
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-500">{(error as Error).message}</p>
+        ) : data && data.results.length === 0 ? (
+          <p className="text-center text-slate-600">No documents match "{query}".</p>
+        ) : (
+          <div className="space-y-4">
+            {data?.results.map((result) => (
+              <Card
+                key={result.id}
+                className="bg-white rounded-xl shadow-sm border border-slate-200 cursor-pointer hover:border-primary-400 transition-colors"
+                onClick={() => setLocation(`/documents/${result.id}`)}
+              >
+                <CardContent className="p-5 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {getFileIcon(result.fileType)}
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-800 truncate">{result.fullName}</p>
+                        <p className="text-sm text-slate-500 truncate">{result.fileName}</p>
+                      </div>
+                    </div>
+                    <span className="text-xs text-slate-400 shrink-0">
+                      {new Date(result.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {result.snippet && <Snippet text={result.snippet} />}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
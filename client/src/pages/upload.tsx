@@ -2,38 +2,183 @@
  * Upload page component for the Document Text Extractor application
  * 
  * Features:
- * - Drag and drop file upload interface
+ * - Drag and drop file upload interface, for one file or a batch of several
+ * - ZIP archives, processed as one document per file or as one combined document
  * - Form validation for user personal information
- * - File type and size validation
- * - Real-time processing feedback
- * - Navigation to results page upon completion
+ * - File type and size validation against the server's capabilities
+ * - Choice of one or more OCR languages
+ * - Choice of image preprocessing steps run before OCR
+ * - Background processing with live progress streamed from the server
+ * - Cancellation of processing, including when the user leaves the page
+ * - Navigation to the document page upon completion, or a summary linking
+ *   to every document of a batch
  */
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
-import { CloudUpload, FolderOpen, X, FileText, Image, Loader2 } from "lucide-react";
-import { uploadSchema, type UploadData } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { CloudUpload, FolderOpen, X, FileText, Image, Archive, CheckCircle2, XCircle, Loader2, Clock } from "lucide-react";
+import {
+  uploadSchema,
+  preprocessingSteps,
+  preprocessingStepLabels,
+  defaultPreprocessingSteps,
+  archiveModes,
+  type ArchiveMode,
+  type UploadData,
+  type ExtractionProgress,
+  type Capabilities,
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import Navigation from "@/components/navigation";
 
 /**
- * Interface for the API response after successful document processing
+ * Interface for the status of a background processing job
  */
-interface ProcessingResult {
+interface ProcessingJob {
   id: number;
-  fullName: string;
-  age: number;
-  extractedText: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  documentId: number | null;
+  batchId: number | null; // Batch of documents, for ZIP uploads
+  error: string | null;
+  errorCode: string | null; // e.g. "EXTRACTION_TIMEOUT"
+}
+
+/**
+ * One file's outcome in a batch upload response
+ */
+interface BatchUploadResult {
   fileName: string;
-  fileType: string;
+  job?: ProcessingJob; // Queued job, when the file was accepted
+  error?: string; // Why the file was not queued
+}
+
+/**
+ * A file of a batch upload, as shown in its status rows
+ */
+interface BatchItem {
+  fileName: string;
+  status: "pending" | "processing" | "done" | "failed";
+  jobId?: number; // Job processing the file, once queued
+  result?: ProcessingJob; // Finished job, once done
+  error?: string; // Failure reason, once failed
+}
+
+/**
+ * Processing state shown while a document is being handled
+ * "uploading" covers the time before the server has queued the job
+ */
+type ProcessingStatus = "uploading" | ProcessingJob["status"];
+
+// Human-readable labels for the extraction stages reported by the server
+const STAGE_LABELS: Record<ExtractionProgress["stage"], string> = {
+  scanning: "Scanning for malware",
+  "loading-engine": "Starting OCR engine",
+  "loading-language": "Loading language data",
+  preprocessing: "Preparing image",
+  recognizing: "Recognizing text",
+  "reading-pdf": "Reading PDF",
+  "reading-document": "Reading document",
+};
+
+// Notification titles for job error codes with a more specific meaning than "Error"
+const ERROR_TITLES: Record<string, string> = {
+  EXTRACTION_TIMEOUT: "Processing timed out",
+  MALWARE_DETECTED: "File quarantined",
+  SCAN_FAILED: "Malware scan unavailable",
+  INVALID_ARCHIVE: "Archive not accepted",
+  INVALID_DOCUMENT: "Document not accepted",
+  INVALID_IMAGE: "Image not accepted",
+};
+
+// Type browsers report for files they cannot identify, such as HEIC photos on many systems
+const GENERIC_FILE_TYPE = "application/octet-stream";
+
+// Choices for how ZIP uploads become documents
+const ARCHIVE_MODE_LABELS: Record<ArchiveMode, string> = {
+  separate: "One document per file",
+  combined: "One combined document",
+};
+
+/**
+ * Page showing what a finished job produced: its document, or the batch
+ * of documents made from a ZIP upload
+ */
+function resultPath(job: ProcessingJob): string {
+  return job.documentId !== null ? `/documents/${job.documentId}` : `/batches/${job.batchId}`;
+}
+
+/**
+ * Follow a processing job over Server-Sent Events until it finishes
+ *
+ * @param jobId - ID returned by the asynchronous upload
+ * @param onStatus - Called whenever the job's status changes
+ * @param onProgress - Called with each extraction progress update
+ * @returns Promise resolving to the succeeded job, holding the resulting
+ *          document or, for ZIP uploads, batch
+ * @throws Error with the job's failure reason and error code if processing
+ *         failed, or if it was cancelled
+ */
+function waitForJob(
+  jobId: number,
+  onStatus: (status: ProcessingJob["status"]) => void,
+  onProgress: (progress: ExtractionProgress) => void,
+): Promise<ProcessingJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener("status", (event) => {
+      const job = JSON.parse((event as MessageEvent).data) as ProcessingJob;
+      onStatus(job.status);
+      if (job.status === "succeeded") {
+        source.close();
+        resolve(job);
+      } else if (job.status === "failed") {
+        source.close();
+        reject(Object.assign(new Error(job.error || "Failed to process document"), { code: job.errorCode }));
+      } else if (job.status === "cancelled") {
+        source.close();
+        reject(new Error("Processing was cancelled"));
+      }
+    });
+
+    source.addEventListener("progress", (event) => {
+      onProgress(JSON.parse((event as MessageEvent).data));
+    });
+
+    // The browser retries dropped connections itself; only give up once it stops
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost connection to the processing job"));
+      }
+    };
+  });
+}
+
+/**
+ * Build the multipart form fields shared by single and batch uploads
+ * The caller appends the file or files themselves
+ */
+function toFormData(data: UploadData): FormData {
+  const formData = new FormData();
+  formData.append("firstName", data.firstName);
+  formData.append("lastName", data.lastName);
+  formData.append("dateOfBirth", data.dateOfBirth);
+  formData.append("language", data.language);
+  formData.append("preprocessing", data.preprocessing.join(","));
+  formData.append("archiveMode", data.archiveMode);
+  return formData;
 }
 
 /**
@@ -42,11 +187,26 @@ interface ProcessingResult {
  */
 export default function UploadPage() {
   // Component state management
-  const [selectedFile, setSelectedFile] = useState<File | null>(null); // Currently selected file
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]); // Currently selected files
   const [isDragOver, setIsDragOver] = useState(false); // Drag and drop visual feedback
+  const [status, setStatus] = useState<ProcessingStatus>("uploading"); // Current processing state
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null); // Latest extraction progress
+  const [isCancelling, setIsCancelling] = useState(false); // Cancellation requested by the user
+  const [batch, setBatch] = useState<BatchItem[] | null>(null); // Files of the current or last batch upload
+  const activeJobIds = useRef<Set<number>>(new Set()); // Jobs being processed, until they finish
   const [, setLocation] = useLocation(); // Navigation hook
   const { toast } = useToast(); // Toast notification system
 
+  // Supported file formats, ZIP archives of them and size limits, as reported by the server
+  const { data: capabilities } = useQuery<Capabilities>({ queryKey: ["/api/capabilities"] });
+  const archive = capabilities?.archive;
+  const formats = capabilities ? [...capabilities.formats, capabilities.archive] : [];
+  const acceptedTypes = formats.flatMap((format) => format.mimeTypes);
+  const acceptedExtensions = formats.flatMap((format) => format.extensions);
+  const formatLabels = formats.map((format) => format.label).join(", ");
+  const maxFileSize = capabilities?.maxFileSize ?? 10 * 1024 * 1024;
+  const maxBatchFiles = capabilities?.maxBatchFiles ?? 20;
+
   // Form setup with validation schema
   const form = useForm<UploadData>({
     resolver: zodResolver(uploadSchema), // Zod validation integration
@@ -54,9 +214,33 @@ export default function UploadPage() {
       firstName: "",
       lastName: "",
       dateOfBirth: "",
+      language: "eng",
+      preprocessing: defaultPreprocessingSteps,
+      archiveMode: "separate",
     },
   });
 
+  // OCR languages currently picked, in the order they were chosen
+  const selectedLanguages = form.watch("language").split("+");
+
+  // Preprocessing steps currently enabled
+  const selectedSteps = form.watch("preprocessing");
+
+  /**
+   * Type of a selected file, going by its extension when the browser
+   * reports no type or only a generic one; the server checks the content
+   */
+  const fileTypeOf = (file: File): string => {
+    if (file.type && file.type !== GENERIC_FILE_TYPE) return file.type;
+    const extension = /\.[^.]+$/.exec(file.name)?.[0].toLowerCase();
+    const format = extension ? formats.find((candidate) => candidate.extensions.includes(extension)) : undefined;
+    return format?.mimeTypes[0] ?? file.type;
+  };
+
+  // The archive mode only matters once a ZIP file is selected
+  const isArchive = (file: File) => archive?.mimeTypes.includes(fileTypeOf(file)) ?? false;
+  const hasArchive = selectedFiles.some(isArchive);
+
   /**
    * React Query mutation for handling file upload and processing
    * Handles the API request and response state management
@@ -64,65 +248,178 @@ export default function UploadPage() {
   const uploadMutation = useMutation({
     mutationFn: async (data: UploadData & { file: File }) => {
       // Create FormData for multipart file upload
-      const formData = new FormData();
+      const formData = toFormData(data);
       formData.append("file", data.file);
-      formData.append("firstName", data.firstName);
-      formData.append("lastName", data.lastName);
-      formData.append("dateOfBirth", data.dateOfBirth);
 
-      // Send request to backend API
-      const response = await apiRequest("POST", "/api/upload", formData);
-      return response.json() as Promise<ProcessingResult>;
+      // Queue the upload for background processing and follow it to completion
+      setStatus("uploading");
+      setProgress(null);
+      const response = await apiRequest("POST", "/api/upload?async=true", formData);
+      const job = (await response.json()) as ProcessingJob;
+      activeJobIds.current.add(job.id);
+      try {
+        return await waitForJob(job.id, setStatus, setProgress);
+      } finally {
+        activeJobIds.current.delete(job.id);
+      }
     },
-    // Success handler - navigate to results page
-    onSuccess: (result) => {
+    // Success handler - navigate to the processed document, or the batch of a ZIP upload
+    onSuccess: (job) => {
       toast({
         title: "Success",
-        description: "Document processed successfully!",
+        description: job.batchId !== null ? "Archive processed successfully!" : "Document processed successfully!",
       });
-      // Store result in sessionStorage for the results page
-      sessionStorage.setItem("processingResult", JSON.stringify(result));
-      setLocation("/results");
+      setLocation(resultPath(job));
     },
     // Error handler - show error notification
     onError: (error: any) => {
+      if (isCancelling) {
+        setIsCancelling(false);
+        toast({ title: "Cancelled", description: "Processing was cancelled." });
+        return;
+      }
       toast({
-        title: "Error",
+        title: ERROR_TITLES[error.code] ?? "Error",
         description: error.message || "Failed to process document",
         variant: "destructive",
       });
     },
   });
 
+  /**
+   * Mutation queueing several files at once and following each to completion
+   * Jobs are followed one at a time, in the order the server processes
+   * them, so only one event stream is open at once
+   */
+  const batchMutation = useMutation({
+    mutationFn: async (data: UploadData & { files: File[] }) => {
+      const formData = toFormData(data);
+      data.files.forEach((file) => formData.append("files", file));
+
+      setBatch(data.files.map((file) => ({ fileName: file.name, status: "pending" })));
+      setProgress(null);
+      const response = await apiRequest("POST", "/api/upload/batch", formData);
+      const { files } = (await response.json()) as { files: BatchUploadResult[] };
+
+      const items: BatchItem[] = files.map(({ fileName, job, error }) =>
+        job ? { fileName, status: "pending", jobId: job.id } : { fileName, status: "failed", error },
+      );
+      items.forEach(({ jobId }) => jobId !== undefined && activeJobIds.current.add(jobId));
+      setBatch(items);
+
+      for (let index = 0; index < items.length; index++) {
+        const { jobId } = items[index];
+        if (jobId === undefined) continue;
+
+        const update = (change: Partial<BatchItem>) =>
+          setBatch((rows) => rows && rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+        try {
+          const result = await waitForJob(
+            jobId,
+            (status) => {
+              setStatus(status);
+              if (status === "running") update({ status: "processing" });
+            },
+            setProgress,
+          );
+          update({ status: "done", result });
+        } catch (error: any) {
+          update({ status: "failed", error: error.message });
+        } finally {
+          activeJobIds.current.delete(jobId);
+          setProgress(null);
+        }
+      }
+    },
+    onSuccess: () => setIsCancelling(false),
+    // Only the upload itself can fail; per-file failures are shown in their rows
+    onError: (error: any) => {
+      setIsCancelling(false);
+      setBatch(null);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload documents",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Stop the server's work on jobs the user walks away from, whether by
+  // navigating elsewhere in the app or by closing the tab
+  useEffect(() => {
+    const cancelActiveJobs = () => {
+      activeJobIds.current.forEach((jobId) => navigator.sendBeacon(`/api/jobs/${jobId}/cancel`));
+    };
+    window.addEventListener("pagehide", cancelActiveJobs);
+    return () => {
+      window.removeEventListener("pagehide", cancelActiveJobs);
+      cancelActiveJobs();
+    };
+  }, []);
+
+  /**
+   * Ask the server to stop processing the current job, or every unfinished
+   * job of a batch
+   * The jobs' event streams then report them as cancelled
+   */
+  const handleCancel = async () => {
+    const jobIds = Array.from(activeJobIds.current);
+    if (jobIds.length === 0) return;
+    setIsCancelling(true);
+    const results = await Promise.allSettled(
+      jobIds.map((jobId) => apiRequest("POST", `/api/jobs/${jobId}/cancel`)),
+    );
+    // Jobs may have finished meanwhile; their own outcome is reported instead
+    if (results.every((result) => result.status === "rejected")) {
+      setIsCancelling(false);
+    }
+  };
+
+  /**
+   * Start over after a batch, keeping the entered details
+   */
+  const handleBatchDone = () => {
+    setBatch(null);
+    setSelectedFiles([]);
+  };
+
   /**
    * Handle file selection with validation
-   * Checks file type and size before accepting
+   * Checks each file's type and size, and the batch size, before accepting
    */
-  const handleFileSelect = (file: File) => {
-    const allowedTypes = ["application/pdf", "image/jpeg", "image/jpg", "image/png"];
-    
-    // Validate file type
-    if (!allowedTypes.includes(file.type)) {
+  const handleFilesSelect = (files: File[]) => {
+    // Validate file types once the server's capabilities are known
+    const rejectedTypes = capabilities ? files.filter((file) => !acceptedTypes.includes(fileTypeOf(file))) : [];
+    if (rejectedTypes.length > 0) {
       toast({
         title: "Invalid file type",
-        description: "Only PDF files and images (PNG, JPG, JPEG) are supported.",
+        description: `${rejectedTypes.map((file) => file.name).join(", ")}: supported formats are ${formatLabels}.`,
         variant: "destructive",
       });
-      return;
     }
 
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
+    // Validate file sizes
+    const rejectedSizes = files.filter((file) => file.size > maxFileSize);
+    if (rejectedSizes.length > 0) {
       toast({
         title: "File too large",
-        description: "File size must be less than 10MB.",
+        description: `${rejectedSizes.map((file) => file.name).join(", ")}: files must be less than ${formatFileSize(maxFileSize)}.`,
         variant: "destructive",
       });
-      return;
     }
 
-    // File is valid, update state
-    setSelectedFile(file);
+    const accepted = files.filter((file) => !rejectedTypes.includes(file) && !rejectedSizes.includes(file));
+    const combined = [...selectedFiles, ...accepted];
+    if (combined.length > maxBatchFiles) {
+      toast({
+        title: "Too many files",
+        description: `Up to ${maxBatchFiles} files can be processed at once.`,
+        variant: "destructive",
+      });
+    }
+
+    // Valid files are added to the selection, up to the batch limit
+    setSelectedFiles(combined.slice(0, maxBatchFiles));
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -138,21 +435,22 @@ export default function UploadPage() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    const files = e.dataTransfer.files;
+    const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      handleFileSelect(files[0]);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      handleFilesSelect(files);
     }
+    e.target.value = ""; // Let the same file be chosen again after removing it
   };
 
   const onSubmit = (data: UploadData) => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       toast({
         title: "No file selected",
         description: "Please select a file to process.",
@@ -161,7 +459,12 @@ export default function UploadPage() {
       return;
     }
 
-    uploadMutation.mutate({ ...data, file: selectedFile });
+    // A single file opens its document when done; several get a summary
+    if (selectedFiles.length === 1) {
+      uploadMutation.mutate({ ...data, file: selectedFiles[0] });
+    } else {
+      batchMutation.mutate({ ...data, files: selectedFiles });
+    }
   };
 
   const formatFileSize = (bytes: number) => {
@@ -172,13 +475,60 @@ export default function UploadPage() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
+  /**
+   * Describe the current processing state for the progress card
+   */
+  const getProgressLabel = () => {
+    if (status === "uploading") return "Uploading document";
+    if (status === "queued") return "Waiting in queue";
+    if (!progress) return "Starting";
+    let label = STAGE_LABELS[progress.stage];
+    if (progress.page) label += ` — page ${progress.page} of ${progress.pageCount}`;
+    return progress.entry ? `File ${progress.entry} of ${progress.entryCount}: ${label}` : label;
+  };
+
   const getFileIcon = (fileType: string) => {
     if (fileType === "application/pdf") {
       return <FileText className="text-red-500 text-xl" />;
     }
+    if (archive?.mimeTypes.includes(fileType)) {
+      return <Archive className="text-amber-500 text-xl" />;
+    }
     return <Image className="text-blue-500 text-xl" />;
   };
 
+  const getBatchStatusIcon = (status: BatchItem["status"]) => {
+    switch (status) {
+      case "pending":
+        return <Clock className="h-5 w-5 text-slate-400" />;
+      case "processing":
+        return <Loader2 className="h-5 w-5 animate-spin text-primary-500" />;
+      case "done":
+        return <CheckCircle2 className="h-5 w-5 text-green-500" />;
+      case "failed":
+        return <XCircle className="h-5 w-5 text-red-500" />;
+    }
+  };
+
+  /**
+   * Describe a batch row's state, including the stage of the file in progress
+   */
+  const getBatchStatusLabel = (item: BatchItem) => {
+    switch (item.status) {
+      case "pending":
+        return "Waiting";
+      case "processing":
+        return getProgressLabel();
+      case "done":
+        return "Done";
+      case "failed":
+        return item.error || "Failed";
+    }
+  };
+
+  const batchDone = batch?.filter((item) => item.status === "done").length ?? 0;
+  const batchFailed = batch?.filter((item) => item.status === "failed").length ?? 0;
+
   return (
     <div className="min-h-screen bg-slate-50">
       <Navigation />
@@ -187,17 +537,91 @@ export default function UploadPage() {
         <div className="text-center mb-8">
           <h2 className="text-3xl font-bold text-slate-800 mb-2">Extract Text from Documents</h2>
           <p className="text-slate-600 max-w-2xl mx-auto">
-            Upload a PDF or image file and provide your information to extract text content and calculate your age.
+            Upload one or more documents and provide your information to extract text content and calculate your age.
           </p>
         </div>
 
-        {uploadMutation.isPending ? (
+        {batch ? (
+          <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
+            <CardContent className="p-8 space-y-6">
+              <div className="text-center space-y-2">
+                <h3 className="text-lg font-semibold text-slate-800">
+                  {batchMutation.isPending ? `Processing ${batch.length} Documents...` : "Batch Complete"}
+                </h3>
+                <p className="text-slate-600">
+                  {batchDone} of {batch.length} processed
+                  {batchFailed > 0 && `, ${batchFailed} failed`}
+                </p>
+              </div>
+
+              {/* Per-file status rows */}
+              <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                {batch.map((item, index) => (
+                  <li key={index} className="flex items-center justify-between gap-4 p-4">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {getBatchStatusIcon(item.status)}
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-800 truncate" title={item.fileName}>
+                          {item.fileName}
+                        </p>
+                        <p className={`text-sm ${item.status === "failed" ? "text-red-500" : "text-slate-500"}`}>
+                          {getBatchStatusLabel(item)}
+                        </p>
+                      </div>
+                    </div>
+                    {item.result && (
+                      <Link href={resultPath(item.result)}>
+                        <Button type="button" variant="outline" size="sm">
+                          View
+                        </Button>
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="text-center">
+                {batchMutation.isPending ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCancel}
+                    disabled={isCancelling || !batch.some((item) => item.jobId !== undefined)}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    {isCancelling ? "Cancelling..." : "Cancel Remaining"}
+                  </Button>
+                ) : (
+                  <Button type="button" variant="outline" onClick={handleBatchDone}>
+                    <CloudUpload className="mr-2 h-4 w-4" />
+                    Process More Documents
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : uploadMutation.isPending ? (
           <Card className="bg-white rounded-xl shadow-sm border border-slate-200">
             <CardContent className="p-8 text-center">
               <div className="space-y-4">
-                <Loader2 className="animate-spin w-12 h-12 text-primary-500 mx-auto" />
                 <h3 className="text-lg font-semibold text-slate-800">Processing Document...</h3>
                 <p className="text-slate-600">Extracting text content from your file. This may take a few moments.</p>
+                <div className="max-w-md mx-auto space-y-2">
+                  <Progress value={(progress?.progress ?? 0) * 100} className="h-2" />
+                  <div className="flex justify-between text-sm text-slate-500">
+                    <span>{getProgressLabel()}</span>
+                    {progress && <span>{Math.round(progress.progress * 100)}%</span>}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCancel}
+                  disabled={status === "uploading" || isCancelling}
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  {isCancelling ? "Cancelling..." : "Cancel"}
+                </Button>
               </div>
             </CardContent>
           </Card>
@@ -207,7 +631,7 @@ export default function UploadPage() {
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 {/* File Upload Section */}
                 <div className="space-y-2">
-                  <Label className="text-sm font-medium text-slate-700">Document File</Label>
+                  <Label className="text-sm font-medium text-slate-700">Document Files</Label>
                   <div
                     className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors cursor-pointer ${
                       isDragOver
@@ -224,44 +648,49 @@ export default function UploadPage() {
                         <CloudUpload className="text-slate-500 text-2xl" />
                       </div>
                       <div>
-                        <p className="text-lg font-medium text-slate-700">Drop your file here or click to browse</p>
-                        <p className="text-sm text-slate-500 mt-1">Supports PDF files and images (PNG, JPG, JPEG)</p>
+                        <p className="text-lg font-medium text-slate-700">Drop your files here or click to browse</p>
+                        {formatLabels && (
+                          <p className="text-sm text-slate-500 mt-1">
+                            Supports {formatLabels}, up to {maxBatchFiles} files at once
+                          </p>
+                        )}
                       </div>
                       <Button type="button" variant="outline" className="bg-primary-50 text-primary-600 border-primary-200 hover:bg-primary-100">
                         <FolderOpen className="mr-2 h-4 w-4" />
-                        Choose File
+                        Choose Files
                       </Button>
                     </div>
                     <input
                       id="file-upload"
                       type="file"
                       className="hidden"
-                      accept=".pdf,.png,.jpg,.jpeg"
+                      multiple
+                      accept={[...acceptedExtensions, ...acceptedTypes].join(",")}
                       onChange={handleFileInputChange}
                     />
                   </div>
 
                   {/* File Preview Section */}
-                  {selectedFile && (
-                    <div className="bg-slate-50 rounded-lg p-4 flex items-center justify-between">
+                  {selectedFiles.map((file, index) => (
+                    <div key={index} className="bg-slate-50 rounded-lg p-4 flex items-center justify-between">
                       <div className="flex items-center space-x-3">
-                        {getFileIcon(selectedFile.type)}
+                        {getFileIcon(fileTypeOf(file))}
                         <div>
-                          <p className="font-medium text-slate-800">{selectedFile.name}</p>
-                          <p className="text-sm text-slate-500">{formatFileSize(selectedFile.size)}</p>
+                          <p className="font-medium text-slate-800">{file.name}</p>
+                          <p className="text-sm text-slate-500">{formatFileSize(file.size)}</p>
                         </div>
                       </div>
                       <Button
                         type="button"
                         variant="ghost"
                         size="sm"
-                        onClick={() => setSelectedFile(null)}
+                        onClick={() => setSelectedFiles((files) => files.filter((_, i) => i !== index))}
                         className="text-slate-400 hover:text-slate-600"
                       >
                         <X className="h-4 w-4" />
                       </Button>
                     </div>
-                  )}
+                  ))}
                 </div>
 
                 {/* Personal Information Section */}
@@ -312,15 +741,101 @@ export default function UploadPage() {
                   )}
                 </div>
 
+                {/* OCR Language Section */}
+                {capabilities && capabilities.languages.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-slate-700">Document Language</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      className="flex-wrap justify-start"
+                      value={selectedLanguages}
+                      onValueChange={(codes) => {
+                        // At least one language is needed for OCR
+                        if (codes.length > 0) {
+                          form.setValue("language", codes.join("+"), { shouldValidate: true });
+                        }
+                      }}
+                    >
+                      {capabilities.languages.map((language) => (
+                        <ToggleGroupItem key={language.code} value={language.code} size="sm">
+                          {language.name}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    <p className="text-sm text-slate-500">
+                      Used to read images and scanned pages. Select several for mixed-language documents.
+                    </p>
+                    {form.formState.errors.language && (
+                      <p className="text-sm text-red-500">{form.formState.errors.language.message}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Archive Handling Section */}
+                {hasArchive && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-slate-700">ZIP Archives</Label>
+                    <RadioGroup
+                      value={form.watch("archiveMode")}
+                      onValueChange={(mode) => form.setValue("archiveMode", mode as ArchiveMode)}
+                      className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                    >
+                      {archiveModes.map((mode) => (
+                        <div key={mode} className="flex items-center space-x-2">
+                          <RadioGroupItem id={`archive-mode-${mode}`} value={mode} />
+                          <Label htmlFor={`archive-mode-${mode}`} className="text-sm font-normal text-slate-700">
+                            {ARCHIVE_MODE_LABELS[mode]}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    {archive && (
+                      <p className="text-sm text-slate-500">
+                        Up to {archive.maxEntries} files and {formatFileSize(archive.maxTotalSize)} per archive once
+                        unpacked. Files of other types are skipped.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Image Preprocessing Section */}
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-slate-700">Image Preparation</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {preprocessingSteps.map((step) => (
+                      <div key={step} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`preprocessing-${step}`}
+                          checked={selectedSteps.includes(step)}
+                          onCheckedChange={(checked) => {
+                            // Keep the steps in pipeline order
+                            const steps = preprocessingSteps.filter((s) =>
+                              s === step ? checked === true : selectedSteps.includes(s),
+                            );
+                            form.setValue("preprocessing", steps);
+                          }}
+                        />
+                        <Label htmlFor={`preprocessing-${step}`} className="text-sm font-normal text-slate-700">
+                          {preprocessingStepLabels[step]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-slate-500">
+                    Applied to images and scanned pages before text recognition.
+                  </p>
+                </div>
+
                 {/* Submit Button */}
                 <div className="pt-4">
                   <Button
                     type="submit"
                     className="w-full bg-primary-500 hover:bg-primary-600 text-white font-semibold py-4 px-6 h-auto"
-                    disabled={uploadMutation.isPending}
+                    disabled={uploadMutation.isPending || batchMutation.isPending}
                   >
                     <CloudUpload className="mr-2 h-5 w-5" />
-                    Process Document
+                    {selectedFiles.length > 1 ? `Process ${selectedFiles.length} Documents` : "Process Document"}
                   </Button>
                 </div>
               </form>
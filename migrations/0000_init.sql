@@ -0,0 +1,12 @@
+CREATE TABLE "processed_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text NOT NULL,
+	"date_of_birth" text NOT NULL,
+	"full_name" text NOT NULL,
+	"age" integer NOT NULL,
+	"extracted_text" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
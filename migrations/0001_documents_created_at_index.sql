@@ -0,0 +1 @@
+CREATE INDEX "processed_documents_created_at_idx" ON "processed_documents" USING btree ("created_at","id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "processed_documents_search_idx" ON "processed_documents" USING gin ((setweight(to_tsvector('simple', "full_name"), 'A') || setweight(to_tsvector('simple', "file_name"), 'B') || setweight(to_tsvector('simple', "extracted_text"), 'C')));
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "processing_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text NOT NULL,
+	"date_of_birth" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text NOT NULL,
+	"file_data" "bytea",
+	"document_id" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_document_id_processed_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."processed_documents"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
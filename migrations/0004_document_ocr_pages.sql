@@ -0,0 +1,2 @@
+ALTER TABLE "processed_documents" ADD COLUMN "page_count" integer;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "ocr_pages" integer[];
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "document_pages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"page_number" integer NOT NULL,
+	"text" text NOT NULL,
+	"method" text NOT NULL,
+	"char_count" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_pages" ADD CONSTRAINT "document_pages_document_id_processed_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."processed_documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_pages_document_page_idx" ON "document_pages" USING btree ("document_id","page_number");
\ No newline at end of file
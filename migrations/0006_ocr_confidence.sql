@@ -0,0 +1,3 @@
+ALTER TABLE "document_pages" ADD COLUMN "confidence" real;--> statement-breakpoint
+ALTER TABLE "document_pages" ADD COLUMN "layout" jsonb;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "confidence" real;
\ No newline at end of file
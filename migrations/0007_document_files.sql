@@ -0,0 +1,6 @@
+CREATE TABLE "document_files" (
+	"document_id" integer PRIMARY KEY NOT NULL,
+	"data" "bytea" NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_files" ADD CONSTRAINT "document_files_document_id_processed_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."processed_documents"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "processed_documents" ADD COLUMN "ocr_language" text;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "language" text DEFAULT 'eng' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "processed_documents" ADD COLUMN "detected_languages" text[];--> statement-breakpoint
+CREATE INDEX "processed_documents_detected_languages_idx" ON "processed_documents" USING gin ("detected_languages");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "document_pages" ADD COLUMN "preprocessing" text[];--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "preprocessing" text[];--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "preprocessing" text[] DEFAULT '{}'::text[] NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "processing_jobs" ADD COLUMN "error_code" text;
\ No newline at end of file
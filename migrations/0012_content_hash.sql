@@ -0,0 +1,5 @@
+ALTER TABLE "processed_documents" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "extraction_key" text;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "duplicate_of" integer;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD CONSTRAINT "processed_documents_duplicate_of_processed_documents_id_fk" FOREIGN KEY ("duplicate_of") REFERENCES "public"."processed_documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "processed_documents_extraction_key_idx" ON "processed_documents" USING btree ("extraction_key","id");
\ No newline at end of file
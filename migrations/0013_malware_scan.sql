@@ -0,0 +1,2 @@
+ALTER TABLE "processed_documents" ADD COLUMN "scan_status" text DEFAULT 'unscanned' NOT NULL;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "scan_threat" text;
\ No newline at end of file
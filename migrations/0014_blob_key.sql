@@ -0,0 +1 @@
+ALTER TABLE "processed_documents" ADD COLUMN "blob_key" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "document_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_name" text NOT NULL,
+	"mode" text NOT NULL,
+	"skipped_entries" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD COLUMN "batch_id" integer;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "archive_mode" text DEFAULT 'separate' NOT NULL;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "batch_id" integer;--> statement-breakpoint
+ALTER TABLE "processed_documents" ADD CONSTRAINT "processed_documents_batch_id_document_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."document_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_batch_id_document_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."document_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "processed_documents_batch_id_idx" ON "processed_documents" USING btree ("batch_id","id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "processed_documents_created_at_idx";--> statement-breakpoint
+CREATE INDEX "processed_documents_created_at_idx" ON "processed_documents" USING btree (date_trunc('milliseconds', "created_at"),"id");
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * Tests for ZIP uploads holding files that only look supported
+ *
+ * Archive entries are typed from their content, so a file opening with
+ * another format's magic bytes must not sink the archive:
+ * - A text file starting with "BM" is not taken for a bitmap
+ * - A bitmap whose header checks out but whose pixels are missing is
+ *   skipped as unsupported once it fails to decode, in both archive modes
+ *
+ * A plain text extractor stands in for the real ones, so no OCR runs.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { strToU8, zipSync } from "fflate";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { Extractor } from "./extractors";
+
+// Directory holding the local blob store
+const tempDir = mkdtempSync(path.join(tmpdir(), "archive-test-"));
+
+// The storage and blob store are chosen from the environment when their
+// modules load, so it is set before either is imported
+Object.assign(process.env, {
+  STORAGE_DRIVER: "memory",
+  BLOB_STORE: "local",
+  BLOB_STORE_PATH: path.join(tempDir, "blobs"),
+});
+const { detectFileType, registerExtractor } = await import("./extractors");
+
+// A text file that happens to start like a bitmap
+const BM_TEXT = "BM is short for bitmap, but this is a readme";
+
+/**
+ * Build a bitmap with a believable 54-byte header and no pixel data
+ */
+function truncatedBitmap(): Buffer {
+  const header = Buffer.alloc(54);
+  header.write("BM", 0, "latin1");
+  header.writeUInt32LE(header.length, 2); // File size
+  header.writeUInt32LE(header.length, 10); // Offset of the pixels
+  header.writeUInt32LE(40, 14); // BITMAPINFOHEADER
+  header.writeInt32LE(100, 18); // Width
+  header.writeInt32LE(100, 22); // Height
+  header.writeUInt16LE(1, 26); // Colour planes
+  header.writeUInt16LE(24, 28); // Bits per pixel
+  return header;
+}
+
+// Plain text extractor for "Notes" files, standing in for the real ones
+const notesExtractor: Extractor = {
+  name: "archive-test-notes",
+  label: "Notes",
+  mimeTypes: ["text/x-notes"],
+  extensions: [".txt"],
+  timeout: { baseMs: 10 * 1000, perMegabyteMs: 0 },
+  detectType: (buffer) => (buffer.toString("utf8").startsWith("Notes") ? "text/x-notes" : undefined),
+  async extract(buffer) {
+    return { text: buffer.toString("utf8") };
+  },
+};
+registerExtractor(notesExtractor);
+
+describe("file type detection", () => {
+  it("does not take text starting with BM for a bitmap", () => {
+    assert.equal(detectFileType(Buffer.from(BM_TEXT)), undefined);
+  });
+
+  it("recognises a bitmap by its whole file header", () => {
+    assert.equal(detectFileType(truncatedBitmap()), "image/bmp");
+  });
+});
+
+describe("ZIP uploads with undecodable entries", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  /**
+   * Upload a ZIP archive through POST /api/upload
+   */
+  async function upload(entries: Record<string, Uint8Array>, archiveMode: string): Promise<{ status: number; body: any }> {
+    const form = new FormData();
+    form.append("file", new Blob([zipSync(entries)], { type: "application/zip" }), "scans.zip");
+    form.append("firstName", "Jane");
+    form.append("lastName", "Doe");
+    form.append("dateOfBirth", "1990-05-01");
+    form.append("archiveMode", archiveMode);
+    const response = await fetch(`${baseUrl}/api/upload`, { method: "POST", body: form });
+    return { status: response.status, body: await response.json() };
+  }
+
+  // Archive of a readable file and two that only look like bitmaps
+  const entries = {
+    "notes.txt": strToU8("Notes from the meeting"),
+    "readme.bmp": strToU8(BM_TEXT),
+    "scan.bmp": new Uint8Array(truncatedBitmap()),
+  };
+
+  // Entries both modes skip, sorted by path
+  const skippedEntries = [
+    { path: "readme.bmp", reason: "Unsupported file type" },
+    { path: "scan.bmp", reason: "Unsupported file type" },
+  ];
+
+  /**
+   * Sort skipped entries by path, as entries that fail extraction are
+   * listed after those skipped by type
+   */
+  const byPath = (skipped: { path: string }[]) => [...skipped].sort((a, b) => a.path.localeCompare(b.path));
+
+  before(async () => {
+    const { default: express } = await import("express");
+    const { registerRoutes } = await import("./routes");
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("skips them in separate mode", async () => {
+    const { status, body } = await upload(entries, "separate");
+    assert.equal(status, 200);
+    assert.deepEqual(body.documents.map((document: any) => document.fileName), ["notes.txt"]);
+    assert.deepEqual(byPath(body.skippedEntries), skippedEntries);
+  });
+
+  it("skips them in combined mode", async () => {
+    const { status, body } = await upload(entries, "combined");
+    assert.equal(status, 200);
+    assert.equal(body.documents.length, 1);
+    assert.deepEqual(byPath(body.skippedEntries), skippedEntries);
+
+    const document = await (await fetch(`${baseUrl}/api/document/${body.documents[0].id}`)).json();
+    assert.equal(document.extractedText, "Notes from the meeting");
+  });
+
+  it("keeps them listed when a combined archive's extraction is reused", async () => {
+    const { body } = await upload(entries, "combined");
+    assert.deepEqual(byPath(body.skippedEntries), skippedEntries);
+  });
+
+  it("refuses a combined archive with nothing left to read", async () => {
+    const { status, body } = await upload({ "scan.bmp": new Uint8Array(truncatedBitmap()) }, "combined");
+    assert.equal(status, 422);
+    assert.equal(body.code, "INVALID_ARCHIVE");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Safe expansion of uploaded ZIP archives
+ *
+ * Clients may upload a ZIP of scanned pages or other documents. Archives are
+ * expanded in memory, so every archive is checked against limits before its
+ * entries are decompressed:
+ * - the number of entries
+ * - the total uncompressed size
+ * - how deeply archives may be nested inside one another
+ * - entry paths that would escape the archive, such as "../x" or "/etc/x"
+ */
+
+import { unzipSync } from "fflate";
+
+// MIME types clients send for ZIP archives; Windows browsers use the second
+export const ARCHIVE_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+// File extensions of ZIP archives, with leading dot
+export const ARCHIVE_EXTENSIONS = [".zip"];
+
+// Leading bytes of a ZIP archive's first local file header
+const ZIP_SIGNATURE = "PK\x03\x04";
+
+// Folder of resource fork files macOS adds when compressing, which hold no documents
+const MACOS_METADATA_FOLDER = "__MACOSX/";
+
+/**
+ * Limits applied while expanding an archive
+ */
+export interface ArchiveLimits {
+  maxEntries: number; // Maximum number of files, counted across nested archives
+  maxTotalSize: number; // Maximum total uncompressed size in bytes, counted across nested archives
+  maxDepth: number; // Maximum nesting level; 1 allows no archives inside the upload
+}
+
+// Limits used unless the caller passes its own
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 100,
+  maxTotalSize: 100 * 1024 * 1024, // 100MB
+  maxDepth: 2,
+};
+
+/**
+ * A file found inside an archive
+ */
+export interface ArchiveEntry {
+  path: string; // Path within the upload; entries of nested archives are prefixed with the archive's path
+  data: Buffer; // Uncompressed contents
+}
+
+/**
+ * Raised when an archive cannot be read or breaks one of its limits
+ * Nothing from the archive is processed
+ */
+export class ArchiveError extends Error {
+  readonly code = "INVALID_ARCHIVE"; // Reported to clients alongside the message
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * Whether a file starts like a ZIP archive
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.toString("latin1", 0, ZIP_SIGNATURE.length) === ZIP_SIGNATURE;
+}
+
+/**
+ * Whether a MIME type names a ZIP archive
+ */
+export function isArchiveType(mimeType: string): boolean {
+  return ARCHIVE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Reject entry paths that are absolute or climb out of the archive
+ * Backslashes count as separators, as some Windows tools write them
+ *
+ * @throws ArchiveError if the path is unsafe
+ */
+function checkEntryPath(name: string): void {
+  const segments = name.replace(/\\/g, "/").split("/");
+  if (name.startsWith("/") || name.startsWith("\\") || /^[a-zA-Z]:/.test(name) || segments.includes("..")) {
+    throw new ArchiveError(`Archive entry "${name}" has an unsafe path`);
+  }
+}
+
+/**
+ * Error for an archive fflate cannot read
+ *
+ * @param prefix - Path prefix of the archive's entries; empty for the upload itself
+ */
+function unreadableArchive(prefix: string): ArchiveError {
+  const name = prefix ? `"${prefix.slice(0, -1)}"` : "Upload";
+  return new ArchiveError(`${name} is not a readable ZIP archive`);
+}
+
+/**
+ * Expand a ZIP archive into its files, descending into nested .zip entries
+ * Directories and macOS metadata are left out. The whole archive is
+ * rejected if any limit is exceeded, before its entries are decompressed.
+ *
+ * @param buffer - Raw contents of the archive
+ * @param limits - Limits to enforce
+ * @returns The files in archive order
+ * @throws ArchiveError if the archive is unreadable, unsafe or too large
+ */
+export function expandArchive(buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let entryCount = 0;
+  let totalSize = 0;
+
+  const expand = (archive: Buffer, prefix: string, depth: number) => {
+    if (depth > limits.maxDepth) {
+      throw new ArchiveError(`Archives nested more than ${limits.maxDepth} deep are not accepted`);
+    }
+    if (!isZipArchive(archive)) {
+      throw unreadableArchive(prefix);
+    }
+
+    // List the entries without decompressing anything, and check them
+    // against the limits using the sizes the archive declares
+    const names: string[] = [];
+    try {
+      unzipSync(new Uint8Array(archive), {
+        filter: (file) => {
+          checkEntryPath(file.name);
+          if (file.name.endsWith("/") || file.name.startsWith(MACOS_METADATA_FOLDER)) return false;
+
+          entryCount++;
+          totalSize += file.originalSize;
+          if (entryCount > limits.maxEntries) {
+            throw new ArchiveError(`Archives may contain at most ${limits.maxEntries} files`);
+          }
+          if (totalSize > limits.maxTotalSize) {
+            throw new ArchiveError(`Archives may expand to at most ${limits.maxTotalSize / (1024 * 1024)}MB`);
+          }
+          names.push(file.name);
+          return false;
+        },
+      });
+    } catch (error) {
+      if (error instanceof ArchiveError) throw error;
+      throw unreadableArchive(prefix);
+    }
+
+    // Entries are decompressed into buffers of their declared size, so an
+    // entry that lies about its size cannot expand past the limit
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(new Uint8Array(archive), { filter: (file) => names.includes(file.name) });
+    } catch {
+      throw unreadableArchive(prefix);
+    }
+
+    for (const name of names) {
+      const path = prefix + name;
+      const data = Buffer.from(files[name]);
+      if (ARCHIVE_EXTENSIONS.some((extension) => name.toLowerCase().endsWith(extension))) {
+        expand(data, `${path}/`, depth + 1);
+      } else {
+        entries.push({ path, data });
+      }
+    }
+  };
+
+  expand(buffer, "", 1);
+  return entries;
+}
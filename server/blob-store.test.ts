@@ -0,0 +1,108 @@
+/**
+ * Contract tests for the blob stores
+ *
+ * Every BlobStore implementation must behave the same, so the same tests
+ * run against each of them:
+ * - LocalBlobStore, always, in a temporary directory
+ * - S3BlobStore, when S3_BUCKET is set, configured from the environment the
+ *   same way as the server (see "Tests" in the README for running MinIO)
+ *
+ * The S3 tests write below a prefix of their own and delete what they wrote.
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { BlobStore } from "./blob-store";
+
+// The server's store is chosen from the environment when its module loads,
+// so S3 is selected before it is imported whenever a bucket is configured
+if (process.env.S3_BUCKET) process.env.BLOB_STORE = "s3";
+const { LocalBlobStore, blobStore } = await import("./blob-store");
+
+/**
+ * Define the contract tests for one blob store
+ *
+ * @param store - Store under test
+ * @param prefix - Prefix of every key the tests use
+ * @returns Keys written by the tests, for cleaning up
+ */
+function blobStoreContract(store: BlobStore, prefix: string): string[] {
+  const written: string[] = [];
+
+  /**
+   * A key no other test uses
+   */
+  const newKey = () => {
+    const key = `${prefix}originals/${randomUUID()}`;
+    written.push(key);
+    return key;
+  };
+
+  it("returns what was stored", async () => {
+    const key = newKey();
+    const data = Buffer.from("%PDF-1.4 original upload");
+    await store.put(key, data, "application/pdf");
+    assert.deepEqual(await store.get(key), data);
+  });
+
+  it("returns undefined for missing blobs", async () => {
+    assert.equal(await store.get(newKey()), undefined);
+  });
+
+  it("replaces a blob stored under the same key", async () => {
+    const key = newKey();
+    await store.put(key, Buffer.from("first"));
+    await store.put(key, Buffer.from("second"));
+    assert.deepEqual(await store.get(key), Buffer.from("second"));
+  });
+
+  it("accepts simultaneous writes of the same key", async () => {
+    // Uploads of the same file share a content-addressed key
+    const key = newKey();
+    const data = Buffer.alloc(256 * 1024, "same file");
+    await Promise.all(Array.from({ length: 5 }, () => store.put(key, data)));
+    assert.deepEqual(await store.get(key), data);
+  });
+
+  it("deletes blobs, ignoring missing ones", async () => {
+    const key = newKey();
+    await store.put(key, Buffer.from("short-lived"));
+    await store.delete(key);
+    assert.equal(await store.get(key), undefined);
+    await store.delete(key);
+  });
+
+  return written;
+}
+
+describe("LocalBlobStore", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "blob-store-test-"));
+  const store = new LocalBlobStore(directory);
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  blobStoreContract(store, "");
+
+  it("rejects keys outside its directory", async () => {
+    await assert.rejects(store.put("../escaped", Buffer.from("x")), /Invalid blob key/);
+    await assert.rejects(store.get("/etc/passwd"), /Invalid blob key/);
+  });
+});
+
+describe("S3BlobStore", { skip: !process.env.S3_BUCKET && "S3_BUCKET is not set" }, () => {
+  const written = blobStoreContract(blobStore, `blob-store-test-${randomUUID()}/`);
+
+  after(async () => {
+    await Promise.all(written.map((key) => blobStore.delete(key)));
+  });
+
+  it("is configured for S3", () => {
+    assert.equal(blobStore.name, "s3");
+  });
+});
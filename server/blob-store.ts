@@ -0,0 +1,172 @@
+/**
+ * Blob storage for original uploaded files
+ *
+ * Provides an abstraction over where file contents live, with two implementations:
+ * - A local directory, for single-server deployments and development
+ * - An S3-compatible bucket (AWS S3, MinIO, ...), for shared or durable storage
+ *
+ * The implementation is chosen at startup by the BLOB_STORE environment
+ * variable ("local" or "s3"). When unset, S3 is used whenever S3_BUCKET is
+ * configured.
+ */
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { S3Client, DeleteObjectCommand, GetObjectCommand, PutObjectCommand, NoSuchKey } from "@aws-sdk/client-s3";
+
+// Directory used by the local store when BLOB_STORE_PATH is unset
+const DEFAULT_BLOB_STORE_PATH = "data/blobs";
+
+/**
+ * Contract every blob store implements
+ * Keys are slash-separated paths such as "originals/<sha256>"
+ */
+export interface BlobStore {
+  name: string; // Identifier used in logs, e.g. "s3"
+
+  /**
+   * Store a blob, replacing any blob with the same key
+   * @param key - Blob key
+   * @param data - Blob contents
+   * @param contentType - MIME type recorded with the blob, where supported
+   */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  /**
+   * Retrieve a blob
+   * @param key - Blob key
+   * @returns Promise resolving to the contents, or undefined if there is no such blob
+   */
+  get(key: string): Promise<Buffer | undefined>;
+
+  /**
+   * Remove a blob; removing a blob that does not exist is not an error
+   * @param key - Blob key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Blob store keeping each blob as a file below a directory
+ */
+export class LocalBlobStore implements BlobStore {
+  name = "local";
+
+  /**
+   * @param directory - Root directory of the store, created on first write
+   */
+  constructor(private directory: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+    // Write beside the target and rename, so readers never see a partial file.
+    // Each write has its own temporary file, as uploads of the same file share a key
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    try {
+      await fs.promises.writeFile(temporary, data);
+      await fs.promises.rename(temporary, file);
+    } catch (error) {
+      await fs.promises.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the store's directory
+   * @throws Error if the key would point outside of it
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return file;
+  }
+}
+
+/**
+ * Blob store keeping each blob as an object in an S3-compatible bucket
+ */
+export class S3BlobStore implements BlobStore {
+  name = "s3";
+
+  /**
+   * @param client - Configured S3 client
+   * @param bucket - Bucket holding the blobs, which must already exist
+   */
+  constructor(private client: S3Client, private bucket: string) {}
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Create the blob store selected by environment configuration
+ * S3 credentials come from the AWS SDK's usual sources, such as
+ * AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY
+ *
+ * @returns S3 store when configured, otherwise a local directory store
+ * @throws Error if S3 is requested without S3_BUCKET
+ */
+function createBlobStore(): BlobStore {
+  const { S3_BUCKET, S3_ENDPOINT, S3_REGION, S3_FORCE_PATH_STYLE } = process.env;
+  const driver = process.env.BLOB_STORE || (S3_BUCKET ? "s3" : "local");
+
+  if (driver === "s3") {
+    if (!S3_BUCKET) {
+      throw new Error("BLOB_STORE=s3 requires S3_BUCKET to be set");
+    }
+    const client = new S3Client({
+      region: S3_REGION || "us-east-1",
+      endpoint: S3_ENDPOINT || undefined, // e.g. http://localhost:9000 for MinIO
+      // MinIO and most self-hosted servers only serve bucket names in the path
+      forcePathStyle: S3_FORCE_PATH_STYLE ? S3_FORCE_PATH_STYLE === "true" : Boolean(S3_ENDPOINT),
+    });
+    return new S3BlobStore(client, S3_BUCKET);
+  }
+
+  if (driver !== "local") {
+    throw new Error(`Unknown BLOB_STORE "${driver}". Use "local" or "s3".`);
+  }
+  return new LocalBlobStore(process.env.BLOB_STORE_PATH || DEFAULT_BLOB_STORE_PATH);
+}
+
+// Global blob store instance - selected at startup by BLOB_STORE / S3_BUCKET
+export const blobStore = createBlobStore();
@@ -0,0 +1,39 @@
+/**
+ * PostgreSQL connection for the Document Text Extractor application
+ *
+ * Provides:
+ * - Drizzle database client bound to the shared schema
+ * - Migration runner for the checked-in ./migrations folder
+ */
+
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+// Drizzle client type used by the database-backed storage
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Create a Drizzle client backed by a PostgreSQL connection pool
+ *
+ * @param connectionString - PostgreSQL connection URL (e.g. DATABASE_URL)
+ * @returns Drizzle database client
+ */
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+/**
+ * Apply any pending migrations from the ./migrations folder
+ * Safe to run on every start; already-applied migrations are skipped
+ *
+ * @param db - Drizzle database client to migrate
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+}
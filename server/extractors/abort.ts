@@ -0,0 +1,42 @@
+/**
+ * Timeouts and cancellation of text extraction
+ *
+ * Extractions are stopped through an AbortSignal. Its reason is what the
+ * stopped extraction rejects with: an ExtractionTimeoutError when it ran
+ * out of time, or the canceller's own reason otherwise.
+ */
+
+/**
+ * Raised when an extraction takes longer than its file's time budget
+ */
+export class ExtractionTimeoutError extends Error {
+  readonly code = "EXTRACTION_TIMEOUT"; // Reported to clients alongside the message
+
+  /**
+   * @param timeoutMs - Time budget the extraction exceeded, in milliseconds
+   */
+  constructor(readonly timeoutMs: number) {
+    super(`Text extraction timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = "ExtractionTimeoutError";
+  }
+}
+
+/**
+ * Settle with a promise's outcome, or reject with the signal's reason as
+ * soon as it is aborted, whichever comes first
+ * The work itself carries on unless it watches the signal too
+ *
+ * @param work - Promise to wait for
+ * @param signal - Optional signal that stops the wait
+ * @returns Promise settling like work, unless aborted first
+ */
+export function raceAbort<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return work;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
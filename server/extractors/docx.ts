@@ -0,0 +1,222 @@
+/**
+ * Microsoft Word (.docx) text extractor
+ *
+ * Walks word/document.xml, keeping paragraph breaks, headings
+ * (from paragraph styles), bulleted and numbered lists (from
+ * word/numbering.xml) and table cells.
+ */
+
+import type { Element, Node } from "@xmldom/xmldom";
+import type { Extractor } from "./types";
+import {
+  readXmlParts,
+  listArchiveEntries,
+  childElements,
+  childElement,
+  attribute,
+  renderBlocks,
+  type TextBlock,
+} from "./office";
+
+/**
+ * Paragraph style properties relevant to text structure
+ */
+interface ParagraphStyle {
+  headingLevel?: number;
+  numbering?: { numId: string; level: number };
+}
+
+/**
+ * Read the heading level and list numbering declared by a paragraph or style
+ * Word stores outline levels zero-based, with 9 meaning body text
+ */
+function readParagraphProperties(pPr: Element | undefined): ParagraphStyle {
+  if (!pPr) return {};
+  const properties: ParagraphStyle = {};
+
+  const outline = childElement(pPr, "outlineLvl");
+  const outlineLevel = outline ? Number(attribute(outline, "val")) : NaN;
+  if (outlineLevel >= 0 && outlineLevel < 9) {
+    properties.headingLevel = outlineLevel + 1;
+  }
+
+  const numPr = childElement(pPr, "numPr");
+  const numId = numPr && childElement(numPr, "numId");
+  if (numPr && numId && attribute(numId, "val") !== "0") {
+    const ilvl = childElement(numPr, "ilvl");
+    properties.numbering = {
+      numId: attribute(numId, "val")!,
+      level: ilvl ? Number(attribute(ilvl, "val")) || 0 : 0,
+    };
+  }
+
+  return properties;
+}
+
+/**
+ * Map paragraph style IDs to heading levels and list numbering
+ * Built-in heading styles keep English names ("heading 1", "Title")
+ * even in localized documents, so names are more reliable than IDs
+ */
+function readStyles(styles: Element | undefined): Map<string, ParagraphStyle> {
+  const result: Map<string, ParagraphStyle> = new Map();
+  if (!styles) return result;
+
+  for (const style of childElements(styles).filter((el) => el.localName === "style")) {
+    const id = attribute(style, "styleId");
+    if (!id) continue;
+
+    const properties = readParagraphProperties(childElement(style, "pPr"));
+    const nameElement = childElement(style, "name");
+    const name = (nameElement && attribute(nameElement, "val") || "").toLowerCase();
+    const heading = /^heading (\d)$/.exec(name);
+    if (heading) {
+      properties.headingLevel = Number(heading[1]);
+    } else if (name === "title") {
+      properties.headingLevel = 1;
+    }
+    result.set(id, properties);
+  }
+  return result;
+}
+
+/**
+ * Map numbering instances and levels to whether they are ordered lists
+ *
+ * @returns Function telling whether a numId/level pair is numbered (vs bulleted)
+ */
+function readNumbering(numbering: Element | undefined): (numId: string, level: number) => boolean {
+  const formats: Map<string, Map<number, string>> = new Map(); // abstractNumId -> level -> numFmt
+  const instances: Map<string, string> = new Map(); // numId -> abstractNumId
+
+  for (const element of numbering ? childElements(numbering) : []) {
+    if (element.localName === "abstractNum") {
+      const levels: Map<number, string> = new Map();
+      for (const lvl of childElements(element).filter((el) => el.localName === "lvl")) {
+        const numFmt = childElement(lvl, "numFmt");
+        levels.set(Number(attribute(lvl, "ilvl")), numFmt ? attribute(numFmt, "val") ?? "" : "");
+      }
+      formats.set(attribute(element, "abstractNumId") ?? "", levels);
+    } else if (element.localName === "num") {
+      const abstract = childElement(element, "abstractNumId");
+      instances.set(attribute(element, "numId") ?? "", abstract ? attribute(abstract, "val") ?? "" : "");
+    }
+  }
+
+  return (numId, level) => {
+    const format = formats.get(instances.get(numId) ?? "")?.get(level);
+    return format !== undefined && format !== "bullet" && format !== "none";
+  };
+}
+
+/**
+ * Collect the visible text of a paragraph's runs
+ * Deleted text and field instructions are skipped
+ */
+function runText(node: Node): string {
+  let text = "";
+  for (const child of childElements(node)) {
+    switch (child.localName) {
+      case "t":
+        text += child.textContent ?? "";
+        break;
+      case "tab":
+        text += "\t";
+        break;
+      case "br":
+      case "cr":
+        text += "\n";
+        break;
+      case "pPr":
+      case "rPr":
+      case "delText":
+      case "instrText":
+        break;
+      default:
+        text += runText(child);
+    }
+  }
+  return text;
+}
+
+export const docxExtractor: Extractor = {
+  name: "docx",
+  label: "Word (DOCX)",
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extensions: [".docx"],
+  timeout: { baseMs: 15 * 1000, perMegabyteMs: 10 * 1000 },
+  // Text is read from the document's XML, never OCR'd
+  extractionOptions: [],
+
+  detectType(buffer) {
+    // A ZIP archive with a Word main document part
+    const entries = listArchiveEntries(buffer);
+    return entries?.includes("[Content_Types].xml") && entries.includes("word/document.xml")
+      ? this.mimeTypes[0]
+      : undefined;
+  },
+
+  async extract(buffer, { onProgress }) {
+    onProgress?.({ stage: "reading-document", progress: 0 });
+    const [document, styleSheet, numberingPart] = readXmlParts(buffer, [
+      "word/document.xml",
+      "word/styles.xml",
+      "word/numbering.xml",
+    ]);
+    const body = document && childElement(document, "body");
+    if (!body) {
+      throw new Error("Not a valid Word document");
+    }
+
+    const styles = readStyles(styleSheet);
+    const isOrdered = readNumbering(numberingPart);
+
+    // Convert a paragraph into a heading, list item or plain paragraph
+    const paragraphBlock = (paragraph: Element): TextBlock => {
+      const pPr = childElement(paragraph, "pPr");
+      const pStyle = pPr && childElement(pPr, "pStyle");
+      const style = (pStyle && styles.get(attribute(pStyle, "val") ?? "")) || {};
+      const own = readParagraphProperties(pPr);
+      const headingLevel = own.headingLevel ?? style.headingLevel;
+      const numbering = own.numbering ?? style.numbering;
+      const text = runText(paragraph);
+
+      if (headingLevel) {
+        return { kind: "heading", level: headingLevel, text };
+      }
+      if (numbering) {
+        return {
+          kind: "list-item",
+          level: numbering.level,
+          ordered: isOrdered(numbering.numId, numbering.level),
+          text,
+        };
+      }
+      return { kind: "paragraph", text };
+    };
+
+    // Walk body-level content, descending into content controls
+    const collect = (container: Element, blocks: TextBlock[]): TextBlock[] => {
+      for (const element of childElements(container)) {
+        if (element.localName === "p") {
+          blocks.push(paragraphBlock(element));
+        } else if (element.localName === "tbl") {
+          for (const row of childElements(element).filter((el) => el.localName === "tr")) {
+            const cells = childElements(row)
+              .filter((el) => el.localName === "tc")
+              .map((cell) => collect(cell, []).map((block) => renderBlocks([block])).join("\n"));
+            blocks.push({ kind: "table-row", cells });
+          }
+        } else if (element.localName === "sdt") {
+          const content = childElement(element, "sdtContent");
+          if (content) collect(content, blocks);
+        }
+      }
+      return blocks;
+    };
+
+    const text = renderBlocks(collect(body, []));
+    onProgress?.({ stage: "reading-document", progress: 1 });
+    return { text };
+  },
+};
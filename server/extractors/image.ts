@@ -0,0 +1,40 @@
+/**
+ * Image text extractor
+ *
+ * Runs Tesseract.js OCR over JPG and PNG images, after the requested
+ * preprocessing steps.
+ */
+
+import type { Extractor } from "./types";
+import { recognizeText } from "./ocr";
+import { preprocessImage } from "./preprocess";
+
+// Leading bytes of each supported image format
+const IMAGE_SIGNATURES: { mimeType: string; signature: Buffer }[] = [
+  { mimeType: "image/png", signature: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { mimeType: "image/jpeg", signature: Buffer.from([0xff, 0xd8, 0xff]) },
+];
+
+export const imageExtractor: Extractor = {
+  name: "image",
+  label: "Images (JPG, PNG)",
+  mimeTypes: ["image/jpeg", "image/jpg", "image/png"],
+  extensions: [".jpg", ".jpeg", ".png"],
+
+  timeout: { baseMs: 60 * 1000, perMegabyteMs: 30 * 1000 },
+
+  detectType(buffer) {
+    return IMAGE_SIGNATURES.find(({ signature }) =>
+      buffer.subarray(0, signature.length).equals(signature),
+    )?.mimeType;
+  },
+
+  async extract(buffer, { onProgress, language, preprocessing, signal }) {
+    const { image, applied } = await preprocessImage(buffer, preprocessing, { onProgress, signal });
+    const { text, confidence, layout } = await recognizeText(image, language, { onProgress, signal });
+    return {
+      text,
+      pages: [{ pageNumber: 1, text, method: "ocr", confidence, layout, preprocessing: applied }],
+    };
+  },
+};
@@ -0,0 +1,118 @@
+/**
+ * Registry of text extractors
+ *
+ * Provides:
+ * - Registration of self-contained extractor modules
+ * - Lookup of the extractor for a MIME type
+ * - Identification of a file's actual type from its content
+ * - The list of accepted formats used by the upload filter,
+ *   the capabilities endpoint and the client
+ *
+ * To support a new format, implement Extractor in its own module
+ * and register it below.
+ */
+
+import type { Extractor } from "./types";
+import { pdfExtractor } from "./pdf";
+import { imageExtractor } from "./image";
+import { rasterExtractor } from "./raster";
+import { docxExtractor } from "./docx";
+import { odtExtractor } from "./odt";
+
+export type {
+  Extractor,
+  ExtractOptions,
+  ExtractionResult,
+  ExtractedPage,
+  ExtractionTimeout,
+  ExtractionOption,
+} from "./types";
+export { ExtractionTimeoutError, raceAbort } from "./abort";
+export { OfficeDocumentError } from "./office";
+export { ImageDecodeError } from "./raster";
+export { listOcrLanguages, findUnavailableLanguages, applyExifOrientation, ocrPool } from "./ocr";
+export { preprocessImage } from "./preprocess";
+
+// Non-standard MIME types some clients send, mapped to the type detection reports
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/x-ms-bmp": "image/bmp",
+  "image/heif": "image/heic",
+};
+
+// Registered extractors, keyed by name
+const extractors: Map<string, Extractor> = new Map();
+
+/**
+ * Add an extractor to the registry
+ *
+ * @param extractor - Extractor to register
+ * @throws Error if another extractor already uses the name or a MIME type
+ */
+export function registerExtractor(extractor: Extractor): void {
+  if (extractors.has(extractor.name)) {
+    throw new Error(`Extractor "${extractor.name}" is already registered`);
+  }
+  for (const mimeType of extractor.mimeTypes) {
+    const existing = getExtractor(mimeType);
+    if (existing) {
+      throw new Error(`MIME type ${mimeType} is already handled by "${existing.name}"`);
+    }
+  }
+  extractors.set(extractor.name, extractor);
+}
+
+/**
+ * Find the extractor that handles a MIME type
+ *
+ * @param mimeType - MIME type of the uploaded file
+ * @returns The matching extractor, or undefined if the type is unsupported
+ */
+export function getExtractor(mimeType: string): Extractor | undefined {
+  return Array.from(extractors.values()).find((extractor) => extractor.mimeTypes.includes(mimeType));
+}
+
+/**
+ * Identify a file's type from its content rather than its declared MIME type
+ * Formats recognised by their leading bytes are checked before those that
+ * search further into the file
+ *
+ * @param buffer - Raw file contents
+ * @returns The detected MIME type, or undefined if no extractor recognises the file
+ */
+export function detectFileType(buffer: Buffer): string | undefined {
+  const registered = Array.from(extractors.values());
+  const ordered = [
+    ...registered.filter((extractor) => !extractor.searchesForSignature),
+    ...registered.filter((extractor) => extractor.searchesForSignature),
+  ];
+  for (const extractor of ordered) {
+    const mimeType = extractor.detectType(buffer);
+    if (mimeType) return mimeType;
+  }
+  return undefined;
+}
+
+/**
+ * Whether two MIME types name the same format, e.g. "image/jpg" and "image/jpeg"
+ *
+ * @param declared - MIME type sent by the client
+ * @param detected - MIME type found by detectFileType
+ */
+export function isSameFileType(declared: string, detected: string): boolean {
+  return (MIME_TYPE_ALIASES[declared] ?? declared) === detected;
+}
+
+/**
+ * List all registered extractors in registration order
+ */
+export function listExtractors(): Extractor[] {
+  return Array.from(extractors.values());
+}
+
+// Built-in extractors
+registerExtractor(pdfExtractor);
+registerExtractor(imageExtractor);
+registerExtractor(rasterExtractor);
+registerExtractor(docxExtractor);
+registerExtractor(odtExtractor);
@@ -0,0 +1,332 @@
+/**
+ * Long-lived pool of Tesseract.js workers
+ *
+ * Provides:
+ * - Workers kept per language (or language combination), so language data
+ *   is loaded once rather than for every page
+ * - Queueing through Tesseract's scheduler when every worker is busy,
+ *   growing to the configured number of workers per language on demand
+ * - A limit on the number of languages kept loaded, stopping the workers
+ *   of the least recently used language once it is exceeded
+ * - Cancellation of queued and running jobs through an AbortSignal
+ * - Replacement of workers that stop responding or whose job was cancelled
+ * - Termination of every worker on shutdown
+ *
+ * The pool does not know how workers are configured; the factory passed to
+ * it creates a ready worker for a key, such as "eng+afr" or "osd".
+ */
+
+import Tesseract from "tesseract.js";
+import { log } from "../vite";
+import { raceAbort } from "./abort";
+
+// A job running longer than this is taken to mean its worker is stuck
+const DEFAULT_STUCK_AFTER_MS = 5 * 60 * 1000;
+
+// Number of pool keys whose workers are kept loaded unless the caller sets its own
+const DEFAULT_MAX_KEYS = 4;
+
+/**
+ * Creates a ready-to-use worker for a pool key
+ * The logger must be installed on the worker so job progress reaches its listener
+ */
+export type WorkerFactory = (
+  key: string,
+  logger: (message: Tesseract.LoggerMessage) => void,
+) => Promise<Tesseract.Worker>;
+
+/**
+ * Receives Tesseract logger messages for a single job
+ */
+type JobListener = (message: Tesseract.LoggerMessage) => void;
+
+/**
+ * Options for a single pool job
+ */
+export interface PoolJobOptions {
+  onLog?: JobListener; // Receives the job's Tesseract logger messages
+  signal?: AbortSignal; // Cancels the job, whether queued or running
+}
+
+/**
+ * One worker position in a language's scheduler
+ * The scheduler only sees this slot, so a worker busy with a job nobody
+ * waits for any more can be swapped for a fresh one without the
+ * scheduler noticing
+ */
+class WorkerSlot {
+  private static nextId = 1;
+
+  readonly id = `ocr-worker-${WorkerSlot.nextId++}`; // Identifies the slot to the scheduler
+  private worker: Promise<Tesseract.Worker>; // Current worker, possibly still starting
+
+  /**
+   * @param key - Pool key the worker serves, used in log messages
+   * @param create - Function starting a new worker
+   * @param signalOf - Looks up the cancellation signal of a pool job
+   * @param stuckAfter - Milliseconds after which a running job counts as stuck
+   */
+  constructor(
+    private key: string,
+    private create: () => Promise<Tesseract.Worker>,
+    private signalOf: (jobId?: string) => AbortSignal | undefined,
+    private stuckAfter: number,
+  ) {
+    this.worker = this.start();
+  }
+
+  /**
+   * Wait until the slot's worker has started
+   */
+  async ready(): Promise<void> {
+    await this.worker;
+  }
+
+  // The scheduler calls these without binding them, hence arrow functions
+
+  /**
+   * Run OCR on the slot's worker; called by the scheduler
+   */
+  recognize = (
+    image: Tesseract.ImageLike,
+    options?: Partial<Tesseract.RecognizeOptions>,
+    output?: Partial<Tesseract.OutputFormats>,
+    jobId?: string,
+  ): Promise<Tesseract.RecognizeResult> => this.run(jobId, (worker) => worker.recognize(image, options, output, jobId));
+
+  /**
+   * Run orientation and script detection on the slot's worker; called by the scheduler
+   */
+  detect = (image: Tesseract.ImageLike, jobId?: string): Promise<Tesseract.DetectResult> =>
+    this.run(jobId, (worker) => worker.detect(image, jobId));
+
+  /**
+   * Stop the slot's worker; called by the scheduler and on shutdown
+   */
+  terminate = async (): Promise<void> => {
+    try {
+      await (await this.worker).terminate();
+    } catch {
+      // A worker that failed to start has nothing to stop
+    }
+  };
+
+  /**
+   * Start a worker, keeping a failed start from surfacing as an unhandled rejection
+   */
+  private start(): Promise<Tesseract.Worker> {
+    const worker = this.create();
+    worker.catch(() => {});
+    return worker;
+  }
+
+  /**
+   * Run an action on the current worker, replacing the worker if the job
+   * is cancelled or does not finish in time
+   */
+  private async run<T>(jobId: string | undefined, action: (worker: Tesseract.Worker) => Promise<T>): Promise<T> {
+    // Jobs cancelled while queued are dropped without touching the worker
+    const signal = this.signalOf(jobId);
+    signal?.throwIfAborted();
+
+    let worker: Tesseract.Worker;
+    try {
+      worker = await this.worker;
+    } catch (error) {
+      // Try starting afresh for the next job, e.g. once language data is reachable
+      this.worker = this.start();
+      throw error;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error("OCR worker stopped responding")), this.stuckAfter);
+    });
+
+    let settled = false;
+    const work = action(worker).finally(() => {
+      settled = true;
+    });
+
+    try {
+      return await raceAbort(Promise.race([work, timeout]), signal);
+    } finally {
+      clearTimeout(timer);
+      // Tesseract cannot interrupt a job, so a worker still busy with one is replaced
+      if (!settled) this.recycle(worker, signal?.aborted ? "job cancelled" : "stopped responding");
+    }
+  }
+
+  /**
+   * Replace a busy worker with a fresh one
+   */
+  private recycle(worker: Tesseract.Worker, reason: string): void {
+    log(`replacing OCR worker for ${this.key}: ${reason}`, "ocr");
+    worker.terminate().catch(() => {});
+    this.worker = this.start();
+  }
+}
+
+/**
+ * Workers serving one pool key
+ */
+interface LanguagePool {
+  scheduler: Tesseract.Scheduler;
+  slots: WorkerSlot[];
+  busy: number; // Jobs submitted and not yet settled, including queued ones
+}
+
+/**
+ * Pool of Tesseract workers, grouped by language
+ */
+export class OcrWorkerPool {
+  private pools: Map<string, LanguagePool> = new Map(); // Workers by pool key, least recently used first
+  private jobs: Map<string, PoolJobOptions> = new Map(); // Listeners and signals of unfinished jobs, by job ID
+  private nextJobId = 1;
+  private closed = false;
+
+  /**
+   * @param createWorker - Factory starting a worker for a pool key
+   * @param size - Maximum number of workers per pool key
+   * @param maxKeys - Maximum number of pool keys with loaded workers; keys
+   *                  with unfinished jobs are kept even beyond it
+   * @param stuckAfter - Milliseconds after which a running job counts as stuck
+   */
+  constructor(
+    private createWorker: WorkerFactory,
+    private size = 1,
+    private maxKeys = DEFAULT_MAX_KEYS,
+    private stuckAfter = DEFAULT_STUCK_AFTER_MS,
+  ) {}
+
+  /**
+   * Start a worker for each key ahead of the first job
+   *
+   * @param keys - Pool keys to prepare, e.g. ["eng"]
+   * @returns Promise resolving once the workers are ready
+   */
+  async start(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.getPool(key).slots[0].ready()));
+  }
+
+  /**
+   * Run OCR over an image on a worker for the given languages
+   *
+   * @param key - Tesseract language code(s), e.g. "eng" or "eng+afr"
+   * @param image - Encoded image
+   * @param output - Output formats to produce
+   * @param options - Optional logger listener and cancellation signal
+   * @returns Promise resolving to Tesseract's result
+   * @throws The signal's reason if the job is cancelled
+   */
+  recognize(
+    key: string,
+    image: Buffer,
+    output: Partial<Tesseract.OutputFormats>,
+    options: PoolJobOptions = {},
+  ): Promise<Tesseract.RecognizeResult> {
+    return this.submit(key, options, (scheduler, jobId) => scheduler.addJob("recognize", image, {}, output, jobId));
+  }
+
+  /**
+   * Run orientation and script detection over an image
+   *
+   * @param key - Pool key of workers set up for detection, e.g. "osd"
+   * @param image - Encoded image
+   * @param signal - Optional signal that cancels the job
+   * @returns Promise resolving to Tesseract's result
+   * @throws The signal's reason if the job is cancelled
+   */
+  detect(key: string, image: Buffer, signal?: AbortSignal): Promise<Tesseract.DetectResult> {
+    return this.submit(key, { signal }, (scheduler, jobId) => scheduler.addJob("detect", image, jobId));
+  }
+
+  /**
+   * Stop every worker; jobs submitted afterwards are rejected
+   */
+  async terminate(): Promise<void> {
+    this.closed = true;
+    const slots = Array.from(this.pools.values()).flatMap((pool) => pool.slots);
+    this.pools.clear();
+    await Promise.all(slots.map((slot) => slot.terminate()));
+  }
+
+  /**
+   * Find or create the workers for a key, marking the key as most recently used
+   */
+  private getPool(key: string): LanguagePool {
+    let pool = this.pools.get(key);
+    if (pool) {
+      this.pools.delete(key);
+    } else {
+      pool = { scheduler: Tesseract.createScheduler(), slots: [], busy: 0 };
+      this.addSlot(key, pool);
+    }
+    this.pools.set(key, pool);
+    return pool;
+  }
+
+  /**
+   * Stop the workers of the least recently used keys until at most maxKeys
+   * remain, passing over keys with unfinished jobs
+   */
+  private evictIdle(): void {
+    for (const [key, pool] of Array.from(this.pools)) {
+      if (this.pools.size <= this.maxKeys) return;
+      if (pool.busy > 0) continue;
+      log(`stopping OCR workers for ${key}: least recently used`, "ocr");
+      this.pools.delete(key);
+      pool.slots.forEach((slot) => slot.terminate());
+    }
+  }
+
+  /**
+   * Add a worker to a key's scheduler
+   */
+  private addSlot(key: string, pool: LanguagePool): void {
+    const slot = new WorkerSlot(
+      key,
+      () => this.createWorker(key, (message) => this.jobs.get(message.userJobId)?.onLog?.(message)),
+      (jobId) => (jobId ? this.jobs.get(jobId)?.signal : undefined),
+      this.stuckAfter,
+    );
+    pool.slots.push(slot);
+    // The scheduler only calls the worker methods a slot provides
+    pool.scheduler.addWorker(slot as unknown as Tesseract.Worker);
+  }
+
+  /**
+   * Queue a job on a key's scheduler, adding a worker first if all are busy
+   * A cancelled job settles at once; the scheduler drops it when its turn comes
+   */
+  private async submit<T>(
+    key: string,
+    options: PoolJobOptions,
+    addJob: (scheduler: Tesseract.Scheduler, jobId: string) => Promise<T>,
+  ): Promise<T> {
+    if (this.closed) {
+      throw new Error("OCR worker pool has been shut down");
+    }
+    options.signal?.throwIfAborted();
+
+    const pool = this.getPool(key);
+    if (pool.busy >= pool.slots.length && pool.slots.length < this.size) {
+      this.addSlot(key, pool);
+    }
+
+    const jobId = `ocr-job-${this.nextJobId++}`;
+    this.jobs.set(jobId, options);
+    pool.busy++;
+    this.evictIdle();
+
+    // Keep the job's signal until the scheduler is done with it, even if the caller stops waiting.
+    // Keys kept beyond the limit for their jobs may be stopped once those finish
+    const job = addJob(pool.scheduler, jobId);
+    job.catch(() => {}).finally(() => {
+      pool.busy--;
+      this.jobs.delete(jobId);
+      this.evictIdle();
+    });
+    return raceAbort(job, options.signal);
+  }
+}
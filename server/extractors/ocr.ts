@@ -0,0 +1,267 @@
+/**
+ * Shared OCR helper built on Tesseract.js
+ *
+ * Used by the image extractor and by the PDF extractor's fallback for
+ * pages without a text layer. Translates Tesseract's logger output into
+ * extraction progress and keeps the word and line geometry it reports.
+ *
+ * Language data is read from OCR_LANG_PATH when it is set, which lets
+ * offline servers run OCR. Otherwise Tesseract.js downloads it on first use.
+ *
+ * Work runs on the shared ocrPool, which keeps workers loaded between pages.
+ */
+
+import fs from "fs";
+import sharp from "sharp";
+import Tesseract from "tesseract.js";
+import { languageNames, type ExtractionProgress, type BoundingBox, type OcrLayout } from "@shared/schema";
+import { OcrWorkerPool } from "./ocr-pool";
+
+// Tesseract.js logger statuses mapped to the stages reported to clients
+const TESSERACT_STAGES: Record<string, ExtractionProgress["stage"]> = {
+  "loading tesseract core": "loading-engine",
+  "initializing tesseract": "loading-engine",
+  "loading language traineddata": "loading-language",
+  "initializing api": "loading-language",
+  "recognizing text": "recognizing",
+};
+
+// Directory holding <code>.traineddata or <code>.traineddata.gz files
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH;
+
+// Maximum number of workers kept per OCR language
+const OCR_POOL_SIZE = parseInt(process.env.OCR_POOL_SIZE ?? "1", 10) || 1;
+
+// Maximum number of OCR languages (or language combinations) whose workers stay loaded
+const OCR_POOL_MAX_LANGUAGES = parseInt(process.env.OCR_POOL_MAX_LANGUAGES ?? "4", 10) || 4;
+
+// Pool key of the workers used for orientation detection
+const OSD_KEY = "osd";
+
+// Orientation detections less certain than this are ignored
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+// Languages offered when data is downloaded from the Tesseract.js CDN,
+// which publishes no isiZulu or isiXhosa models
+const CDN_LANGUAGES = ["eng", "afr", "fra", "por", "deu", "spa", "nld", "ita"];
+
+/**
+ * Language data found in OCR_LANG_PATH
+ */
+interface LanguageDirectory {
+  languages: string[]; // Language codes with a traineddata file
+  gzip: boolean; // Whether the files are gzip-compressed
+  osd: boolean; // Whether orientation detection data is present
+}
+
+/**
+ * Scan OCR_LANG_PATH for traineddata files
+ * Tesseract.js loads either compressed or plain files, not a mix, so a
+ * directory containing any .gz files is treated as compressed
+ */
+async function readLanguageDirectory(directory: string): Promise<LanguageDirectory> {
+  const files = await fs.promises.readdir(directory);
+  const gzip = files.some((file) => file.endsWith(".traineddata.gz"));
+  const suffix = gzip ? ".traineddata.gz" : ".traineddata";
+
+  const codes = files
+    .filter((file) => file.endsWith(suffix))
+    .map((file) => file.slice(0, -suffix.length));
+  return {
+    languages: codes.filter((code) => code !== "osd").sort(), // osd is orientation data, not a language
+    gzip,
+    osd: codes.includes("osd"),
+  };
+}
+
+/**
+ * Tesseract.js options that load language data from OCR_LANG_PATH, if set
+ */
+async function languageDataOptions(): Promise<Partial<Tesseract.WorkerOptions>> {
+  if (!OCR_LANG_PATH) return {};
+  const { gzip } = await readLanguageDirectory(OCR_LANG_PATH);
+  return { langPath: OCR_LANG_PATH, gzip, cacheMethod: "none" };
+}
+
+/**
+ * Start a Tesseract worker for the shared pool
+ * Orientation detection needs the legacy engine; text recognition uses LSTM
+ *
+ * @param key - Language code(s) joined by "+", or OSD_KEY
+ * @param logger - Receives the worker's progress messages
+ * @returns Promise resolving to the ready worker
+ */
+async function createOcrWorker(
+  key: string,
+  logger: (message: Tesseract.LoggerMessage) => void,
+): Promise<Tesseract.Worker> {
+  const options: Partial<Tesseract.WorkerOptions> = {
+    ...await languageDataOptions(),
+    logger,
+    // Failed jobs already reject their own promise; without a handler
+    // Tesseract.js rethrows the error outside of it
+    errorHandler: () => {},
+  };
+
+  if (key === OSD_KEY) {
+    return Tesseract.createWorker(OSD_KEY, Tesseract.OEM.TESSERACT_ONLY, {
+      ...options,
+      legacyCore: true,
+      legacyLang: true,
+    });
+  }
+  return Tesseract.createWorker(key.split("+"), Tesseract.OEM.LSTM_ONLY, options);
+}
+
+/**
+ * Workers shared by all OCR work in the process
+ * Started from server/index.ts and terminated on shutdown
+ */
+export const ocrPool = new OcrWorkerPool(createOcrWorker, OCR_POOL_SIZE, OCR_POOL_MAX_LANGUAGES);
+
+/**
+ * List the OCR languages this server can use
+ *
+ * @returns Promise resolving to language codes and display names
+ */
+export async function listOcrLanguages(): Promise<{ code: string; name: string }[]> {
+  const codes = OCR_LANG_PATH
+    ? (await readLanguageDirectory(OCR_LANG_PATH)).languages
+    : CDN_LANGUAGES;
+  // Codes without a known name are shown as-is
+  return codes.map((code) => ({ code, name: languageNames[code] ?? code }));
+}
+
+/**
+ * Find the parts of a language selection that cannot be used
+ *
+ * @param language - Tesseract language code, or several joined by "+" (e.g. "eng+afr")
+ * @returns Promise resolving to the unavailable codes, empty if all are available
+ */
+export async function findUnavailableLanguages(language: string): Promise<string[]> {
+  const available = new Set((await listOcrLanguages()).map(({ code }) => code));
+  return language.split("+").filter((code) => !available.has(code));
+}
+
+/**
+ * Text recognised in an image, with its confidence and geometry
+ */
+export interface OcrResult {
+  text: string;
+  confidence: number; // Mean word confidence, from 0 to 100
+  layout: OcrLayout;
+}
+
+/**
+ * Options for OCR and image preparation of a single image
+ */
+export interface OcrOptions {
+  onProgress?: (progress: ExtractionProgress) => void; // Receives progress updates
+  page?: { page: number; pageCount: number }; // Page position to include in progress updates, for multi-page files
+  signal?: AbortSignal; // Stops the work when aborted
+}
+
+/**
+ * Copy a Tesseract bounding box, dropping any extra properties
+ */
+function toBoundingBox({ x0, y0, x1, y1 }: Tesseract.Bbox): BoundingBox {
+  return { x0, y0, x1, y1 };
+}
+
+/**
+ * Flatten Tesseract's block/paragraph/line hierarchy into lines of words
+ */
+function toLayout(page: Tesseract.Page): OcrLayout {
+  const lines = (page.blocks ?? [])
+    .flatMap((block) => block.paragraphs)
+    .flatMap((paragraph) => paragraph.lines);
+
+  return {
+    lines: lines.map((line) => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      bbox: toBoundingBox(line.bbox),
+      words: line.words.map((word) => ({
+        text: word.text,
+        confidence: word.confidence,
+        bbox: toBoundingBox(word.bbox),
+      })),
+    })),
+  };
+}
+
+/**
+ * Turn an image upright according to its EXIF orientation tag
+ * Tesseract applies the tag itself, but only finds little-endian EXIF, and
+ * browsers differ on whether they honour it. Images are turned here before
+ * OCR and before being served, so word boxes and page images always share
+ * the same pixels.
+ *
+ * @param image - Encoded image (PNG, JPG, ...)
+ * @returns Promise resolving to the upright image as a PNG without the tag,
+ * or to the image itself when it is not tagged as turned
+ */
+export async function applyExifOrientation(image: Buffer): Promise<Buffer> {
+  const { orientation } = await sharp(image).metadata();
+  if (!orientation || orientation <= 1) {
+    return image;
+  }
+  return sharp(image).rotate().png({ compressionLevel: 1 }).toBuffer();
+}
+
+/**
+ * Run OCR over an image
+ *
+ * @param image - Encoded image (PNG, JPG, ...)
+ * @param language - Tesseract language code(s), e.g. "eng" or "eng+afr"
+ * @param options - Optional progress listener, page position and cancellation signal
+ * @returns Promise resolving to the recognised text, confidence and word geometry
+ * @throws The signal's reason if it is aborted
+ */
+export async function recognizeText(
+  image: Buffer,
+  language: string,
+  { onProgress, page, signal }: OcrOptions = {},
+): Promise<OcrResult> {
+  const upright = await applyExifOrientation(image);
+  // Word geometry is only returned when block output is requested
+  const { data } = await ocrPool.recognize(language, upright, { text: true, blocks: true }, {
+    signal,
+    onLog: (message) => {
+      const stage = TESSERACT_STAGES[message.status];
+      if (stage) {
+        onProgress?.({ stage, progress: message.progress, ...page });
+      }
+    },
+  });
+  return { text: data.text, confidence: data.confidence, layout: toLayout(data) };
+}
+
+/**
+ * Detect how far a page is turned from upright
+ * Uses Tesseract's orientation and script detection, which needs the
+ * legacy engine and osd language data
+ *
+ * @param image - Encoded image (PNG, JPG, ...)
+ * @param signal - Optional signal that stops the detection
+ * @returns Promise resolving to the clockwise rotation that makes the page
+ *          upright (0, 90, 180 or 270), or undefined if it cannot be told
+ * @throws The signal's reason if it is aborted
+ */
+export async function detectOrientation(image: Buffer, signal?: AbortSignal): Promise<number | undefined> {
+  if (OCR_LANG_PATH && !(await readLanguageDirectory(OCR_LANG_PATH)).osd) {
+    return undefined;
+  }
+
+  try {
+    const { data } = await ocrPool.detect(OSD_KEY, image, signal);
+    if (data.orientation_degrees === null || (data.orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE) {
+      return undefined;
+    }
+    return data.orientation_degrees;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Pages with too little text cannot be oriented; leave them as they are
+    return undefined;
+  }
+}
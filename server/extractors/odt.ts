@@ -0,0 +1,174 @@
+/**
+ * OpenDocument Text (.odt) text extractor
+ *
+ * Walks content.xml, keeping paragraph breaks, headings (text:h outline
+ * levels), bulleted and numbered lists (from list styles) and table cells.
+ */
+
+import type { Element, Node } from "@xmldom/xmldom";
+import type { Extractor } from "./types";
+import {
+  readXmlParts,
+  readTextPart,
+  childElements,
+  childElement,
+  descendants,
+  attribute,
+  renderBlocks,
+  type TextBlock,
+} from "./office";
+
+// DOM node type of text nodes
+const TEXT_NODE = 3;
+
+/**
+ * Map list style names to the levels (1-based) that are numbered
+ * List styles live in both the automatic styles of content.xml and styles.xml
+ */
+function readListStyles(roots: (Element | undefined)[]): Map<string, Set<number>> {
+  const numbered: Map<string, Set<number>> = new Map();
+  for (const root of roots) {
+    if (!root) continue;
+    for (const style of descendants(root, "list-style")) {
+      const levels: Set<number> = new Set();
+      for (const level of childElements(style)) {
+        if (level.localName === "list-level-style-number") {
+          levels.add(Number(attribute(level, "level")));
+        }
+      }
+      numbered.set(attribute(style, "name") ?? "", levels);
+    }
+  }
+  return numbered;
+}
+
+/**
+ * Collect the text of a paragraph or heading
+ * Handles ODF whitespace elements; notes and annotations are skipped
+ */
+function inlineText(node: Node): string {
+  let text = "";
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === TEXT_NODE) {
+      text += child.nodeValue ?? "";
+      continue;
+    }
+    const element = child as Element;
+    switch (element.localName) {
+      case "s":
+        text += " ".repeat(Number(attribute(element, "c")) || 1);
+        break;
+      case "tab":
+        text += "\t";
+        break;
+      case "line-break":
+        text += "\n";
+        break;
+      case "note":
+      case "annotation":
+        break;
+      default:
+        if (child.nodeType === 1) text += inlineText(element);
+    }
+  }
+  return text;
+}
+
+/**
+ * List the rows of a table, including those inside header and row groups
+ * Rows of nested tables are left to the cell that contains them
+ */
+function tableRows(container: Element): Element[] {
+  return childElements(container).flatMap((child) => {
+    if (child.localName === "table-row") return [child];
+    if (child.localName === "table-header-rows" || child.localName === "table-rows"
+      || child.localName === "table-row-group") {
+      return tableRows(child);
+    }
+    return [];
+  });
+}
+
+export const odtExtractor: Extractor = {
+  name: "odt",
+  label: "OpenDocument Text (ODT)",
+  mimeTypes: ["application/vnd.oasis.opendocument.text"],
+  extensions: [".odt"],
+  timeout: { baseMs: 15 * 1000, perMegabyteMs: 10 * 1000 },
+  // Text is read from the document's XML, never OCR'd
+  extractionOptions: [],
+
+  detectType(buffer) {
+    // OpenDocument archives name their type in a "mimetype" entry
+    const mimeType = readTextPart(buffer, "mimetype")?.trim();
+    return mimeType && this.mimeTypes.includes(mimeType) ? mimeType : undefined;
+  },
+
+  async extract(buffer, { onProgress }) {
+    onProgress?.({ stage: "reading-document", progress: 0 });
+    const [content, styleSheet] = readXmlParts(buffer, ["content.xml", "styles.xml"]);
+    const body = content && childElement(content, "body");
+    const officeText = body && childElement(body, "text");
+    if (!officeText) {
+      throw new Error("Not a valid OpenDocument text document");
+    }
+
+    const numberedLevels = readListStyles([content, styleSheet]);
+
+    // Walk block-level content; list context carries nesting depth and style
+    const collect = (
+      container: Element,
+      blocks: TextBlock[],
+      list?: { level: number; style: string },
+    ): TextBlock[] => {
+      for (const element of childElements(container)) {
+        switch (element.localName) {
+          case "p":
+            blocks.push(list
+              ? {
+                  kind: "list-item",
+                  level: list.level,
+                  ordered: numberedLevels.get(list.style)?.has(list.level + 1) ?? false,
+                  text: inlineText(element),
+                }
+              : { kind: "paragraph", text: inlineText(element) });
+            break;
+          case "h":
+            blocks.push({
+              kind: "heading",
+              level: Number(attribute(element, "outline-level")) || 1,
+              text: inlineText(element),
+            });
+            break;
+          case "list": {
+            // Nested lists inherit the style of the outermost list
+            const style = list?.style || attribute(element, "style-name") || "";
+            const level = list ? list.level + 1 : 0;
+            for (const item of childElements(element)) {
+              if (item.localName === "list-item" || item.localName === "list-header") {
+                collect(item, blocks, { level, style });
+              }
+            }
+            break;
+          }
+          case "table":
+            for (const row of tableRows(element)) {
+              const cells = childElements(row)
+                .filter((el) => el.localName === "table-cell")
+                .map((cell) => collect(cell, []).map((block) => renderBlocks([block])).join("\n"));
+              blocks.push({ kind: "table-row", cells });
+            }
+            break;
+          case "section":
+            collect(element, blocks, list);
+            break;
+        }
+      }
+      return blocks;
+    };
+
+    const text = renderBlocks(collect(officeText, []));
+    onProgress?.({ stage: "reading-document", progress: 1 });
+    return { text };
+  },
+};
@@ -0,0 +1,230 @@
+/**
+ * Helpers shared by the office document extractors (DOCX, ODT)
+ *
+ * Both formats are ZIP archives of XML parts. These helpers read a part
+ * from the archive, parse it, and turn a sequence of structural blocks
+ * (paragraphs, headings, list items, table rows) into readable text.
+ */
+
+import { unzipSync, strFromU8 } from "fflate";
+import { DOMParser, type Element, type Node } from "@xmldom/xmldom";
+
+/**
+ * A structural unit of document text
+ */
+export type TextBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "list-item"; level: number; ordered: boolean; text: string }
+  | { kind: "table-row"; cells: string[] };
+
+// DOM node type of elements
+const ELEMENT_NODE = 1;
+
+// Leading bytes of a ZIP archive's first local file header
+const ZIP_SIGNATURE = "PK\x03\x04";
+
+// Largest uncompressed size of a part that is read. Parts are inflated into
+// buffers of the size the archive declares, so this also bounds memory use
+const MAX_PART_SIZE = 25 * 1024 * 1024; // 25MB
+
+/**
+ * Raised when an office document cannot be read safely, such as a part
+ * that would expand past MAX_PART_SIZE
+ */
+export class OfficeDocumentError extends Error {
+  readonly code = "INVALID_DOCUMENT"; // Reported to clients alongside the message
+
+  constructor(message: string) {
+    super(message);
+    this.name = "OfficeDocumentError";
+  }
+}
+
+/**
+ * Whether a file starts like a ZIP archive
+ */
+function isZipArchive(buffer: Buffer): boolean {
+  return buffer.toString("latin1", 0, ZIP_SIGNATURE.length) === ZIP_SIGNATURE;
+}
+
+/**
+ * Read the names of the entries of an office document archive
+ * Entries are not decompressed
+ *
+ * @param buffer - Raw file contents
+ * @returns Entry names, or undefined if the file is not a readable ZIP archive
+ */
+export function listArchiveEntries(buffer: Buffer): string[] | undefined {
+  if (!isZipArchive(buffer)) return undefined;
+
+  const names: string[] = [];
+  try {
+    unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        names.push(file.name);
+        return false;
+      },
+    });
+  } catch {
+    return undefined;
+  }
+  return names;
+}
+
+/**
+ * Read a text entry of an office document archive
+ *
+ * @param buffer - Raw contents of the .docx/.odt file
+ * @param path - Archive path of the entry
+ * @returns The entry's text, or undefined if it is missing, larger than MAX_PART_SIZE
+ *          or the file is not a ZIP archive
+ */
+export function readTextPart(buffer: Buffer, path: string): string | undefined {
+  if (!isZipArchive(buffer)) return undefined;
+
+  try {
+    const files = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => file.name === path && file.originalSize <= MAX_PART_SIZE,
+    });
+    return files[path] && strFromU8(files[path]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read and parse an XML part of an office document archive
+ *
+ * @param buffer - Raw contents of the .docx/.odt file
+ * @param paths - Archive paths of the parts to read
+ * @returns Parsed root element of each part, or undefined if the part is missing
+ * @throws OfficeDocumentError if a part would expand past MAX_PART_SIZE,
+ *         checked against its declared size before anything is decompressed;
+ *         Error if the file is not a ZIP archive
+ */
+export function readXmlParts(buffer: Buffer, paths: string[]): (Element | undefined)[] {
+  const files = unzipSync(new Uint8Array(buffer), {
+    filter: (file) => {
+      if (!paths.includes(file.name)) return false;
+      if (file.originalSize > MAX_PART_SIZE) {
+        throw new OfficeDocumentError(
+          `Document part "${file.name}" expands to more than ${MAX_PART_SIZE / (1024 * 1024)}MB`,
+        );
+      }
+      return true;
+    },
+  });
+
+  return paths.map((path) => {
+    if (!files[path]) return undefined;
+    const document = new DOMParser().parseFromString(strFromU8(files[path]), "text/xml");
+    return document.documentElement ?? undefined;
+  });
+}
+
+/**
+ * List the child elements of a node
+ */
+export function childElements(node: Node): Element[] {
+  const children: Element[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === ELEMENT_NODE) {
+      children.push(child as Element);
+    }
+  }
+  return children;
+}
+
+/**
+ * Find the first child element with the given local name
+ */
+export function childElement(node: Node, localName: string): Element | undefined {
+  return childElements(node).find((child) => child.localName === localName);
+}
+
+/**
+ * Find all descendant elements with the given local name, in document order
+ */
+export function descendants(node: Node, localName: string): Element[] {
+  const found: Element[] = [];
+  for (const child of childElements(node)) {
+    if (child.localName === localName) {
+      found.push(child);
+    }
+    found.push(...descendants(child, localName));
+  }
+  return found;
+}
+
+/**
+ * Read an attribute by local name, ignoring its namespace prefix
+ */
+export function attribute(element: Element, localName: string): string | undefined {
+  for (let i = 0; i < element.attributes.length; i++) {
+    const attr = element.attributes.item(i)!;
+    if (attr.localName === localName) {
+      return attr.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Render structural blocks as plain text
+ * Paragraphs and headings are separated by blank lines; consecutive list
+ * items and table rows stay on adjacent lines. Headings are prefixed with
+ * "#" per level, list items with "-" or "1." indented by nesting level,
+ * and table cells are separated by " | ".
+ *
+ * @param blocks - Blocks in document order
+ * @returns Readable plain text
+ */
+export function renderBlocks(blocks: TextBlock[]): string {
+  let text = "";
+  let previous: TextBlock | undefined;
+  const counters: number[] = []; // Running numbers of ordered lists, per level
+  const ordered: boolean[] = []; // Whether the list at each level is numbered
+
+  for (const block of blocks) {
+    let line: string;
+    switch (block.kind) {
+      case "heading":
+        line = `${"#".repeat(Math.min(Math.max(block.level, 1), 6))} ${block.text.trim()}`;
+        break;
+      case "list-item": {
+        counters.length = block.level + 1;
+        // Switching between bullets and numbers at a level starts a new list
+        if (ordered[block.level] !== block.ordered) {
+          counters[block.level] = 0;
+          ordered[block.level] = block.ordered;
+        }
+        counters[block.level] = (counters[block.level] ?? 0) + 1;
+        const marker = block.ordered ? `${counters[block.level]}.` : "-";
+        line = `${"  ".repeat(block.level)}${marker} ${block.text.trim()}`;
+        break;
+      }
+      case "table-row":
+        line = block.cells.map((cell) => cell.replace(/\s*\n\s*/g, " ").trim()).join(" | ");
+        break;
+      default:
+        line = block.text.trim();
+    }
+
+    if (block.kind !== "list-item") {
+      counters.length = 0; // Any other block ends the current list
+      ordered.length = 0;
+    }
+    if (!line.trim()) continue;
+
+    const sameGroup = previous && previous.kind === block.kind
+      && (block.kind === "list-item" || block.kind === "table-row");
+    if (previous) {
+      text += sameGroup ? "\n" : "\n\n";
+    }
+    text += line;
+    previous = block;
+  }
+
+  return text;
+}
@@ -0,0 +1,149 @@
+/**
+ * PDF text extractor
+ *
+ * Reads the embedded text layer of each page with pdf-parse, reporting
+ * progress page by page. Pages with little or no text layer (typically
+ * scanned pages) are rasterised with MuPDF, preprocessed and run through
+ * OCR instead.
+ */
+
+import { createRequire } from "module";
+import type { Extractor, ExtractedPage } from "./types";
+import { recognizeText } from "./ocr";
+import { preprocessImage } from "./preprocess";
+
+const require = createRequire(import.meta.url);
+const pdfParse = require("pdf-parse");
+
+// Pages with fewer non-whitespace characters than this are OCR'd
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Resolution at which pages are rasterised for OCR
+const OCR_DPI = 300;
+
+/**
+ * Extract the text layer of a single PDF page
+ * Mirrors pdf-parse's default renderer: items on the same baseline are
+ * joined, and a new baseline starts a new line
+ *
+ * @param pageData - pdf.js page proxy supplied by pdf-parse
+ * @returns Promise resolving to the page's text
+ */
+async function renderPdfPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : "\n" + item.str;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+/**
+ * Whether a page's text layer is too sparse to be the real content
+ */
+function needsOcr(text: string): boolean {
+  return text.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Render PDF pages to grayscale PNG images for OCR
+ * MuPDF is loaded on first use, as its WebAssembly build is large
+ *
+ * @param data - PDF file contents
+ * @returns Function rendering a 1-based page number to a PNG
+ */
+async function openRasteriser(data: Uint8Array): Promise<{
+  render: (pageNumber: number) => Buffer;
+  close: () => void;
+}> {
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(data, "application/pdf");
+  const scale = OCR_DPI / 72;
+
+  return {
+    render: (pageNumber) => {
+      const page = document.loadPage(pageNumber - 1);
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceGray, false, true);
+      try {
+        return Buffer.from(pixmap.asPNG());
+      } finally {
+        pixmap.destroy();
+        page.destroy();
+      }
+    },
+    close: () => document.destroy(),
+  };
+}
+
+export const pdfExtractor: Extractor = {
+  name: "pdf",
+  label: "PDF",
+  mimeTypes: ["application/pdf"],
+  extensions: [".pdf"],
+  // Scanned pages are OCR'd one by one, so larger files need much longer
+  timeout: { baseMs: 60 * 1000, perMegabyteMs: 120 * 1000 },
+
+  detectType(buffer) {
+    // Readers accept the header anywhere in the first kilobyte, after junk such as a BOM
+    return buffer.subarray(0, 1024).includes("%PDF-") ? "application/pdf" : undefined;
+  },
+  searchesForSignature: true,
+
+  async extract(buffer, { onProgress, language, preprocessing, signal }) {
+    // pdf.js reads the whole underlying ArrayBuffer and ignores byteOffset,
+    // which breaks small Buffers sliced from Node's shared pool, so copy first
+    const data = new Uint8Array(buffer);
+    const pages: ExtractedPage[] = [];
+
+    await pdfParse(data, {
+      pagerender: async (pageData: any) => {
+        signal?.throwIfAborted();
+        const pageNumber = pageData.pageIndex + 1;
+        const pageCount = pageData.transport.numPages;
+        onProgress?.({ stage: "reading-pdf", progress: pageNumber / pageCount, page: pageNumber, pageCount });
+
+        const text = await renderPdfPage(pageData);
+        pages.push({ pageNumber, text, method: "text-layer" });
+        return text;
+      },
+    });
+
+    // Fall back to OCR for pages that have no usable text layer
+    const scanned = pages.filter((page) => needsOcr(page.text));
+    if (scanned.length > 0) {
+      const rasteriser = await openRasteriser(new Uint8Array(buffer));
+      try {
+        for (const page of scanned) {
+          const options = { onProgress, signal, page: { page: page.pageNumber, pageCount: pages.length } };
+          const { image, applied } = await preprocessImage(rasteriser.render(page.pageNumber), preprocessing, options);
+          const { text, confidence, layout } = await recognizeText(image, language, options);
+          Object.assign(page, { text, method: "ocr", confidence, layout, preprocessing: applied });
+        }
+      } finally {
+        rasteriser.close();
+      }
+    }
+
+    return {
+      text: pages.map((page) => page.text).join("\n\n"),
+      pages,
+    };
+  },
+
+  async renderPage(buffer, pageNumber) {
+    // Rendered at the OCR resolution, so OCR word boxes line up with the image
+    // once the page's preprocessing is replayed
+    const rasteriser = await openRasteriser(new Uint8Array(buffer));
+    try {
+      return rasteriser.render(pageNumber);
+    } finally {
+      rasteriser.close();
+    }
+  },
+};
@@ -0,0 +1,232 @@
+/**
+ * Image preprocessing ahead of OCR
+ *
+ * Phone photos and scans are often rotated, tilted, dim or small, all of
+ * which hurt Tesseract's accuracy. Each requested step is applied in the
+ * order of preprocessingSteps, and only steps that changed the image are
+ * reported, so replaying the reported steps reproduces the same image.
+ */
+
+import sharp, { type Sharp } from "sharp";
+import { preprocessingSteps, type PreprocessingStep } from "@shared/schema";
+import { applyExifOrientation, detectOrientation, type OcrOptions } from "./ocr";
+
+// Largest tilt, in degrees, that deskewing looks for
+const MAX_SKEW_ANGLE = 10;
+
+// Resolution of the deskew search, in degrees
+const SKEW_ANGLE_STEP = 0.25;
+
+// Tilts smaller than this, in degrees, are left alone
+const MIN_SKEW_ANGLE = 0.5;
+
+// Width the image is reduced to while measuring its tilt
+const SKEW_SAMPLE_WIDTH = 800;
+
+// Images whose longer side is shorter than this are enlarged
+const MIN_OCR_DIMENSION = 2000;
+
+// Largest enlargement factor applied to small images
+const MAX_UPSCALE_FACTOR = 3;
+
+/**
+ * Outcome of preprocessing an image
+ */
+export interface PreprocessedImage {
+  image: Buffer; // Processed image, PNG encoded
+  applied: PreprocessingStep[]; // Steps that changed the image, in order
+}
+
+/**
+ * Encode an intermediate image losslessly, favouring speed over size
+ */
+function toPng(pipeline: Sharp): Promise<Buffer> {
+  return pipeline.png({ compressionLevel: 1 }).toBuffer();
+}
+
+/**
+ * Read an image as single-channel 8-bit grey pixels on a white background
+ */
+async function readGray(image: Buffer, width?: number): Promise<{ pixels: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize({ width, withoutEnlargement: true })
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { pixels: data, width: info.width, height: info.height };
+}
+
+/**
+ * Choose the grey level that best separates ink from paper (Otsu's method)
+ *
+ * @param pixels - 8-bit grey pixels
+ * @returns Threshold between 0 and 255
+ */
+function otsuThreshold(pixels: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < pixels.length; i++) {
+    histogram[pixels[i]]++;
+  }
+
+  const total = pixels.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let bestVariance = -1;
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += histogram[level] * level;
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+}
+
+/**
+ * Measure how far text lines are tilted from horizontal
+ * Projects the dark pixels onto the vertical axis at each candidate angle;
+ * the angle at which lines of text produce the sharpest profile wins
+ *
+ * @param image - Encoded image
+ * @returns Clockwise rotation, in degrees, that levels the text
+ */
+async function findSkewAngle(image: Buffer): Promise<number> {
+  const { pixels, width, height } = await readGray(image, SKEW_SAMPLE_WIDTH);
+  const threshold = otsuThreshold(pixels);
+
+  // Coordinates of ink pixels
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  const rows = new Array<number>(width + height + 1);
+  for (let angle = -MAX_SKEW_ANGLE; angle <= MAX_SKEW_ANGLE; angle += SKEW_ANGLE_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+
+    // Row of each ink pixel once the image is turned by the angle
+    rows.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(xs[i] * sin + ys[i] * cos) + width]++;
+    }
+
+    // Level lines make rows alternate sharply between ink and gaps
+    let score = 0;
+    for (let row = 1; row < rows.length; row++) {
+      const difference = rows[row] - rows[row - 1];
+      score += difference * difference;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/**
+ * Run the requested preprocessing steps over an image
+ *
+ * @param image - Encoded image (PNG, JPG, ...)
+ * @param steps - Steps to run; their order here does not matter
+ * @param options - Optional progress listener, page position and cancellation signal
+ * @returns Promise resolving to the processed image and the steps that changed it
+ * @throws The signal's reason if it is aborted
+ */
+export async function preprocessImage(
+  image: Buffer,
+  steps: PreprocessingStep[],
+  { onProgress, page, signal }: OcrOptions = {},
+): Promise<PreprocessedImage> {
+  const requested = preprocessingSteps.filter((step) => steps.includes(step));
+  const applied: PreprocessingStep[] = [];
+  let current = image;
+
+  for (const [index, step] of Array.from(requested.entries())) {
+    signal?.throwIfAborted();
+    onProgress?.({ stage: "preprocessing", progress: index / requested.length, ...page });
+
+    switch (step) {
+      case "orientation": {
+        const upright = await applyExifOrientation(current);
+        if (upright !== current) {
+          current = upright;
+          applied.push(step);
+        }
+        break;
+      }
+      case "auto-rotate": {
+        const rotation = await detectOrientation(current, signal);
+        if (rotation) {
+          current = await toPng(sharp(current).rotate(rotation));
+          applied.push(step);
+        }
+        break;
+      }
+      case "deskew": {
+        const angle = await findSkewAngle(current);
+        if (Math.abs(angle) >= MIN_SKEW_ANGLE) {
+          current = await toPng(sharp(current).rotate(angle, { background: "#ffffff" }));
+          applied.push(step);
+        }
+        break;
+      }
+      case "grayscale":
+        current = await toPng(sharp(current).flatten({ background: "#ffffff" }).grayscale());
+        applied.push(step);
+        break;
+      case "normalize":
+        current = await toPng(sharp(current).normalise());
+        applied.push(step);
+        break;
+      case "upscale": {
+        const { width = 0, height = 0 } = await sharp(current).metadata();
+        const longest = Math.max(width, height);
+        if (longest > 0 && longest < MIN_OCR_DIMENSION) {
+          const factor = Math.min(MAX_UPSCALE_FACTOR, MIN_OCR_DIMENSION / longest);
+          current = await toPng(sharp(current).resize({
+            width: Math.round(width * factor),
+            height: Math.round(height * factor),
+            kernel: "lanczos3",
+          }));
+          applied.push(step);
+        }
+        break;
+      }
+      case "binarize": {
+        const { pixels } = await readGray(current);
+        current = await toPng(sharp(current).threshold(otsuThreshold(pixels)));
+        applied.push(step);
+        break;
+      }
+    }
+  }
+
+  if (requested.length > 0) {
+    onProgress?.({ stage: "preprocessing", progress: 1, ...page });
+  }
+  return { image: current, applied };
+}
@@ -0,0 +1,193 @@
+/**
+ * Scan and photo text extractor
+ *
+ * Runs Tesseract.js OCR over the image formats scanners, fax gateways and
+ * phones produce: TIFF, WebP, BMP, GIF and HEIC. Every frame of a
+ * multi-page file (a faxed TIFF, an animated GIF, an image sequence in a
+ * HEIC) becomes a page of its own. Frames are decoded to PNG, then
+ * preprocessed and OCR'd one at a time.
+ */
+
+import { createRequire } from "module";
+import sharp from "sharp";
+import type { Extractor, ExtractedPage } from "./types";
+import { recognizeText } from "./ocr";
+import { preprocessImage } from "./preprocess";
+
+const require = createRequire(import.meta.url);
+const bmp = require("bmp-js");
+
+// Leading bytes of each format found at the start of the file
+const RASTER_SIGNATURES: { mimeType: string; signature: Buffer }[] = [
+  { mimeType: "image/tiff", signature: Buffer.from("II*\0", "latin1") }, // Little-endian
+  { mimeType: "image/tiff", signature: Buffer.from("MM\0*", "latin1") }, // Big-endian
+  { mimeType: "image/gif", signature: Buffer.from("GIF87a", "latin1") },
+  { mimeType: "image/gif", signature: Buffer.from("GIF89a", "latin1") },
+];
+
+// Sizes of the DIB headers that can follow a BMP file header, one per version
+const BMP_INFO_HEADER_SIZES = [12, 40, 52, 56, 108, 124];
+
+// Brands in a HEIF "ftyp" box that mark HEVC-coded images (AVIF uses its own brands)
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"];
+
+/**
+ * Raised when an image file looks like one of the supported formats but
+ * cannot be decoded
+ */
+export class ImageDecodeError extends Error {
+  readonly code = "INVALID_IMAGE"; // Reported to clients alongside the message
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageDecodeError";
+  }
+}
+
+/**
+ * Decoded frames of an image file
+ */
+interface FrameSource {
+  count: number; // Number of frames, at least 1
+  render: (pageNumber: number) => Promise<Buffer>; // PNG of a 1-based frame
+}
+
+/**
+ * Whether a file opens with a BMP file header
+ * Plenty of text files start with "BM", so the rest of the header must
+ * make sense too: a file size that fits, zeroed reserved bytes and a
+ * known DIB header size
+ */
+function isBmp(buffer: Buffer): boolean {
+  return buffer.length >= 18
+    && buffer.toString("latin1", 0, 2) === "BM"
+    && buffer.readUInt32LE(2) <= buffer.length
+    && buffer.readUInt32LE(6) === 0
+    && BMP_INFO_HEADER_SIZES.includes(buffer.readUInt32LE(14));
+}
+
+/**
+ * Identify the format of an image file from its leading bytes
+ */
+function detectRasterType(buffer: Buffer): string | undefined {
+  // WebP is a RIFF container whose form type follows the chunk size
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  // HEIF files open with an ISO media "ftyp" box naming the major brand
+  if (buffer.toString("latin1", 4, 8) === "ftyp" && HEIC_BRANDS.includes(buffer.toString("latin1", 8, 12))) {
+    return "image/heic";
+  }
+  if (isBmp(buffer)) {
+    return "image/bmp";
+  }
+  return RASTER_SIGNATURES.find(({ signature }) =>
+    buffer.subarray(0, signature.length).equals(signature),
+  )?.mimeType;
+}
+
+/**
+ * Encode raw RGBA pixels as a PNG
+ */
+function rgbaToPng({ width, height, data }: { width: number; height: number; data: Uint8Array }): Promise<Buffer> {
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width, height, channels: 4 },
+  }).png().toBuffer();
+}
+
+/**
+ * Open an image file's frames for decoding
+ * libvips reads TIFF, WebP and GIF directly. Its HEIF support covers only
+ * AVIF, so HEIC goes through libheif, loaded on first use as its
+ * WebAssembly build is large; BMP goes through bmp-js.
+ *
+ * @param buffer - Raw file contents
+ * @returns The number of frames and a function decoding each to PNG
+ */
+async function readFrames(buffer: Buffer): Promise<FrameSource> {
+  const mimeType = detectRasterType(buffer);
+
+  if (mimeType === "image/heic") {
+    const decodeHeic = require("heic-decode");
+    const images = await decodeHeic.all({ buffer });
+    return {
+      count: images.length,
+      render: async (pageNumber) => rgbaToPng(await images[pageNumber - 1].decode()),
+    };
+  }
+
+  if (mimeType === "image/bmp") {
+    // bmp-js writes each pixel as alpha (unused), blue, green, red
+    const { width, height, data } = bmp.decode(buffer);
+    const rgba = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < rgba.length; i += 4) {
+      rgba[i] = data[i + 3];
+      rgba[i + 1] = data[i + 2];
+      rgba[i + 2] = data[i + 1];
+      rgba[i + 3] = 255;
+    }
+    const png = await rgbaToPng({ width, height, data: rgba });
+    return { count: 1, render: async () => png };
+  }
+
+  // EXIF is carried over so the orientation step can still read it
+  const { pages = 1 } = await sharp(buffer).metadata();
+  return {
+    count: pages,
+    render: (pageNumber) => sharp(buffer, { page: pageNumber - 1 }).keepExif().png().toBuffer(),
+  };
+}
+
+/**
+ * Open an image file's frames for decoding, as readFrames does
+ *
+ * @param buffer - Raw file contents
+ * @returns The number of frames and a function decoding each to PNG
+ * @throws ImageDecodeError, when opening or rendering, if the file is damaged
+ *         or is not really an image
+ */
+async function openFrames(buffer: Buffer): Promise<FrameSource> {
+  const unreadable = (error: any): never => {
+    throw new ImageDecodeError(`Image could not be decoded: ${error.message}`);
+  };
+  const frames = await readFrames(buffer).catch(unreadable);
+  return {
+    count: frames.count,
+    render: (pageNumber) => frames.render(pageNumber).catch(unreadable),
+  };
+}
+
+export const rasterExtractor: Extractor = {
+  name: "raster",
+  label: "Scans and photos (TIFF, WebP, BMP, GIF, HEIC)",
+  mimeTypes: ["image/tiff", "image/webp", "image/bmp", "image/x-ms-bmp", "image/gif", "image/heic", "image/heif"],
+  extensions: [".tif", ".tiff", ".webp", ".bmp", ".gif", ".heic", ".heif"],
+  // Multi-page TIFFs are OCR'd frame by frame, like scanned PDFs
+  timeout: { baseMs: 60 * 1000, perMegabyteMs: 120 * 1000 },
+
+  detectType: detectRasterType,
+
+  async extract(buffer, { onProgress, language, preprocessing, signal }) {
+    const frames = await openFrames(buffer);
+    const pages: ExtractedPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= frames.count; pageNumber++) {
+      signal?.throwIfAborted();
+      const options = { onProgress, signal, page: { page: pageNumber, pageCount: frames.count } };
+      const { image, applied } = await preprocessImage(await frames.render(pageNumber), preprocessing, options);
+      const { text, confidence, layout } = await recognizeText(image, language, options);
+      pages.push({ pageNumber, text, method: "ocr", confidence, layout, preprocessing: applied });
+    }
+
+    return {
+      text: pages.map((page) => page.text).join("\n\n"),
+      pages,
+    };
+  },
+
+  async renderPage(buffer, pageNumber) {
+    // Decoded exactly as for OCR, so word boxes line up once preprocessing is replayed
+    const frames = await openFrames(buffer);
+    return frames.render(pageNumber);
+  },
+};
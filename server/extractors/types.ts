@@ -0,0 +1,100 @@
+/**
+ * Contract shared by all text extractors
+ *
+ * An extractor is a self-contained module that knows how to turn one family
+ * of file formats into plain text. Extractors are registered in ./index.ts,
+ * which drives the upload filter, the capabilities endpoint and the client's
+ * accepted file types.
+ */
+
+import type { ExtractionProgress, ExtractionMethod, OcrLayout, PreprocessingStep } from "@shared/schema";
+
+/**
+ * Options passed to an extractor for a single file
+ */
+export interface ExtractOptions {
+  onProgress?: (progress: ExtractionProgress) => void; // Receives progress updates
+  language: string; // OCR language code(s), e.g. "eng" or "eng+afr"
+  preprocessing: PreprocessingStep[]; // Image preprocessing steps to run before OCR
+  signal?: AbortSignal; // Aborted when the extraction times out or is cancelled
+}
+
+/**
+ * Upload option that can change what an extractor produces
+ */
+export type ExtractionOption = "language" | "preprocessing";
+
+/**
+ * Time an extraction may take, growing with the size of the file
+ */
+export interface ExtractionTimeout {
+  baseMs: number; // Allowance for any file, in milliseconds
+  perMegabyteMs: number; // Additional allowance per megabyte of file, in milliseconds
+}
+
+/**
+ * Text extracted from a single page of a multi-page file
+ */
+export interface ExtractedPage {
+  pageNumber: number; // 1-based page number
+  text: string;
+  method: ExtractionMethod;
+  confidence?: number; // Mean OCR word confidence (0-100), for OCR'd pages
+  layout?: OcrLayout; // OCR word and line geometry, for OCR'd pages
+  preprocessing?: PreprocessingStep[]; // Preprocessing steps that changed the image, for OCR'd pages
+}
+
+/**
+ * Outcome of extracting text from a file
+ */
+export interface ExtractionResult {
+  text: string; // Full text of the file
+  pages?: ExtractedPage[]; // Per-page text, for formats with pages
+}
+
+/**
+ * A text extractor for one or more file formats
+ */
+export interface Extractor {
+  name: string; // Unique identifier, e.g. "pdf"
+  label: string; // Human-readable format description, e.g. "PDF"
+  mimeTypes: string[]; // MIME types this extractor accepts
+  extensions: string[]; // File extensions (with leading dot) this extractor accepts
+  timeout?: ExtractionTimeout; // Time budget for one file; a server-wide default applies if omitted
+  extractionOptions?: ExtractionOption[]; // Options its output depends on; all of them if omitted
+
+  /**
+   * Identify a file of this extractor's formats from its content
+   * Uploads are checked with this, as their declared MIME type comes from the client
+   * @param buffer - Raw file contents
+   * @returns The file's MIME type, or undefined if it is not one of this extractor's formats
+   */
+  detectType(buffer: Buffer): string | undefined;
+
+  /**
+   * Whether detectType accepts a signature found past the start of the file
+   * Such checks run after all others, so a file opening with another
+   * format's magic bytes is not claimed over a marker in its metadata
+   */
+  searchesForSignature?: boolean;
+
+  /**
+   * Extract plain text from a file's contents
+   * @param buffer - Raw file contents
+   * @param options - Progress listener and other per-file options; long-running
+   *                  extractors should stop once options.signal is aborted
+   * @returns Promise resolving to the extracted text
+   */
+  extract(buffer: Buffer, options: ExtractOptions): Promise<ExtractionResult>;
+
+  /**
+   * Render one page of a multi-page file to a PNG image
+   * Pixel coordinates match the OCR layout recorded for that page once
+   * the page's preprocessing steps are replayed over the image.
+   * Formats whose file is itself the page image (e.g. JPG, PNG) omit this.
+   * @param buffer - Raw file contents
+   * @param pageNumber - 1-based page number
+   * @returns Promise resolving to the PNG image
+   */
+  renderPage?(buffer: Buffer, pageNumber: number): Promise<Buffer>;
+}
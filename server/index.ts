@@ -3,6 +3,8 @@
  * 
  * Sets up:
  * - Express.js server with middleware
+ * - Database migrations when PostgreSQL storage is configured
+ * - The shared OCR worker pool, stopped again on shutdown
  * - Request logging for API endpoints
  * - API routes for file processing
  * - Development server with Vite integration
@@ -12,6 +14,8 @@
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, DatabaseStorage } from "./storage";
+import { ocrPool } from "./extractors";
 import { setupVite, serveStatic, log } from "./vite";
 
 // Create Express application instance
@@ -63,6 +67,21 @@ app.use((req, res, next) => {
  * Handles both development and production environments
  */
 (async () => {
+  // Bring the database schema up to date before serving requests
+  if (storage instanceof DatabaseStorage) {
+    await storage.migrate();
+    log("database migrations applied");
+  }
+
+  // Load the default OCR language ahead of the first upload; if that fails
+  // (e.g. language data cannot be downloaded), workers start on first use
+  try {
+    await ocrPool.start(["eng"]);
+    log("OCR worker pool ready");
+  } catch (error) {
+    log(`OCR worker pool not started: ${error}`);
+  }
+
   // Register API routes and get HTTP server instance
   const server = await registerRoutes(app);
 
@@ -98,4 +117,14 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Stop accepting requests and terminate OCR workers before exiting
+  const shutdown = async (signal: string) => {
+    log(`${signal} received, shutting down`);
+    server.close();
+    await ocrPool.terminate();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
 })();
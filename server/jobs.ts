@@ -0,0 +1,230 @@
+/**
+ * In-process job queue for asynchronous document processing
+ *
+ * Provides:
+ * - Queueing of uploads that are processed in the background
+ * - Bounded concurrency so OCR work does not starve the server
+ * - Persistence through IStorage, so queued jobs resume after a restart
+ * - Live status and progress events for subscribers such as SSE streams
+ * - Cancellation of queued and running jobs
+ */
+
+import { EventEmitter } from "events";
+import type { ExtractionProgress, InsertJob, ProcessingJob } from "@shared/schema";
+import type { IStorage, JobUpdate } from "./storage";
+import { log } from "./vite";
+
+/**
+ * What a processed job produced
+ */
+export type JobResult = Pick<ProcessingJob, "documentId" | "batchId">;
+
+/**
+ * Function that turns a queued job into a stored document, or into a batch
+ * of documents for a ZIP upload
+ * Throwing marks the job as failed with the error's message, its code
+ * property, if any, as the job's error code, and its documentId property,
+ * if any, as the job's document (such as a quarantined upload). The processor should
+ * stop once the signal is aborted, which happens when the job is cancelled.
+ */
+export type JobProcessor = (
+  job: ProcessingJob & { fileData: Buffer },
+  onProgress: (progress: ExtractionProgress) => void,
+  signal: AbortSignal,
+) => Promise<JobResult>;
+
+/**
+ * A job that has been started and not yet finished
+ */
+interface RunningJob {
+  controller: AbortController; // Cancels the job
+  done: Promise<void>; // Settles once the job's outcome is stored
+}
+
+/**
+ * Event delivered to job subscribers
+ */
+export type JobEvent =
+  | { type: "status"; job: ProcessingJob }
+  | { type: "progress"; progress: ExtractionProgress };
+
+/**
+ * Background queue that runs processing jobs one (or a few) at a time
+ */
+export class JobQueue {
+  private pending: number[] = []; // IDs of jobs waiting for a free slot
+  private active = 0; // Number of jobs currently running
+  private events = new EventEmitter(); // Per-job status and progress events
+  private progress: Map<number, ExtractionProgress> = new Map(); // Latest progress of running jobs
+  private running: Map<number, RunningJob> = new Map(); // Started jobs, by ID
+
+  /**
+   * @param storage - Storage used to persist jobs and their results
+   * @param processor - Function that processes a single job
+   * @param concurrency - Maximum number of jobs run at the same time
+   */
+  constructor(
+    private storage: IStorage,
+    private processor: JobProcessor,
+    private concurrency = 1,
+  ) {}
+
+  /**
+   * Persist a new job and schedule it for processing
+   *
+   * @param job - Form data and uploaded file to process
+   * @returns Promise resolving to the queued job
+   */
+  async enqueue(job: InsertJob): Promise<ProcessingJob> {
+    const created = await this.storage.createJob(job);
+    this.pending.push(created.id);
+    this.drain();
+    return created;
+  }
+
+  /**
+   * Listen for status changes and progress of a single job
+   *
+   * @param id - Job to follow
+   * @param listener - Called for every event of that job
+   * @returns Function that removes the listener
+   */
+  subscribe(id: number, listener: (event: JobEvent) => void): () => void {
+    const name = `job:${id}`;
+    this.events.on(name, listener);
+    return () => {
+      this.events.off(name, listener);
+    };
+  }
+
+  /**
+   * Latest progress reported by a running job, if any
+   */
+  getProgress(id: number): ExtractionProgress | undefined {
+    return this.progress.get(id);
+  }
+
+  /**
+   * Cancel a job that has not finished yet
+   * A queued job is dropped; a running job is stopped and its outcome
+   * stored before this resolves. Finished jobs are left as they are.
+   *
+   * @param id - Job to cancel
+   * @returns Promise resolving to the job afterwards, or undefined if it does not exist
+   */
+  async cancel(id: number): Promise<ProcessingJob | undefined> {
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort();
+      await running.done;
+      return this.storage.getJob(id);
+    }
+
+    const index = this.pending.indexOf(id);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      return this.update(id, { status: "cancelled", fileData: null, finishedAt: new Date() });
+    }
+    return this.storage.getJob(id);
+  }
+
+  /**
+   * Reschedule jobs left unfinished by a previous server run
+   * Jobs that were running when the server stopped start over
+   *
+   * @returns Promise resolving to the number of resumed jobs
+   */
+  async resume(): Promise<number> {
+    const jobs = await this.storage.listUnfinishedJobs();
+    for (const job of jobs) {
+      if (job.status === "running") {
+        await this.storage.updateJob(job.id, { status: "queued", startedAt: null });
+      }
+      this.pending.push(job.id);
+    }
+    this.drain();
+    return jobs.length;
+  }
+
+  /**
+   * Start pending jobs until the concurrency limit is reached
+   */
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.active++;
+      const done = this.run(id, controller.signal).finally(() => {
+        this.running.delete(id);
+        this.active--;
+        this.drain();
+      });
+      this.running.set(id, { controller, done });
+    }
+  }
+
+  /**
+   * Persist a job update and notify subscribers of the new status
+   */
+  private async update(id: number, update: JobUpdate): Promise<ProcessingJob | undefined> {
+    const job = await this.storage.updateJob(id, update);
+    if (job) {
+      this.emit(id, { type: "status", job });
+    }
+    return job;
+  }
+
+  /**
+   * Deliver an event to the job's subscribers
+   */
+  private emit(id: number, event: JobEvent): void {
+    this.events.emit(`job:${id}`, event);
+  }
+
+  /**
+   * Process a single job and record its outcome
+   * Never rejects; failures and cancellation are stored on the job
+   */
+  private async run(id: number, signal: AbortSignal): Promise<void> {
+    try {
+      const job = await this.update(id, { status: "running", startedAt: new Date() });
+      if (!job) return;
+
+      const onProgress = (progress: ExtractionProgress) => {
+        this.progress.set(id, progress);
+        this.emit(id, { type: "progress", progress });
+      };
+
+      try {
+        if (!job.fileData) {
+          throw new Error("Uploaded file is no longer available");
+        }
+        const result = await this.processor({ ...job, fileData: job.fileData }, onProgress, signal);
+        this.progress.delete(id);
+        await this.update(id, {
+          status: "succeeded",
+          ...result,
+          fileData: null, // Release the upload once its text is stored
+          finishedAt: new Date(),
+        });
+      } catch (error: any) {
+        this.progress.delete(id);
+        await this.update(id, signal.aborted ? {
+          status: "cancelled",
+          fileData: null,
+          finishedAt: new Date(),
+        } : {
+          status: "failed",
+          error: error.message || "Failed to process document",
+          errorCode: error.code ?? null,
+          documentId: error.documentId ?? null,
+          fileData: null,
+          finishedAt: new Date(),
+        });
+      }
+    } catch (error) {
+      // Storage itself failed; the job stays unfinished and resumes on restart
+      log(`job ${id} could not be updated: ${error}`, "jobs");
+    }
+  }
+}
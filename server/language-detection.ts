@@ -0,0 +1,67 @@
+/**
+ * Offline language detection for extracted text
+ *
+ * Provides:
+ * - Detection of the main language and any other substantial languages
+ *   in a text, using franc's trigram models (no network access needed)
+ *
+ * Detection is limited to the languages in languageNames. Left open,
+ * franc confuses closely related languages on short texts, e.g. English
+ * with Scots.
+ */
+
+import { franc } from "franc";
+import { languageNames } from "@shared/schema";
+
+// Languages detection chooses between
+const CANDIDATE_LANGUAGES = Object.keys(languageNames);
+
+// Shortest passage, in characters, worth classifying on its own
+const MIN_PASSAGE_LENGTH = 40;
+
+// Share of the classified text a language needs to be reported
+const MIN_LANGUAGE_SHARE = 0.2;
+
+/**
+ * Detect the languages of a text
+ * Each paragraph is classified separately, so mixed-language documents
+ * report every language that makes up a fair share of the text
+ *
+ * @param text - Extracted text
+ * @returns ISO 639-3 codes, main language first; empty if undetermined
+ */
+export function detectLanguages(text: string): string[] {
+  // Classify paragraphs, merging short ones into the next so each is long enough
+  const passages: string[] = [];
+  let pending = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    pending = pending ? `${pending}\n${paragraph}` : paragraph;
+    if (pending.trim().length >= MIN_PASSAGE_LENGTH) {
+      passages.push(pending);
+      pending = "";
+    }
+  }
+  if (pending.trim()) {
+    // Too short to classify alone, so attach the remainder to the last passage
+    if (passages.length > 0) {
+      passages[passages.length - 1] += `\n${pending}`;
+    } else {
+      passages.push(pending);
+    }
+  }
+
+  // Weigh each language by the amount of text written in it
+  const shares = new Map<string, number>();
+  let total = 0;
+  for (const passage of passages) {
+    const language = franc(passage, { only: CANDIDATE_LANGUAGES });
+    if (language === "und") continue;
+    shares.set(language, (shares.get(language) ?? 0) + passage.length);
+    total += passage.length;
+  }
+
+  return Array.from(shares)
+    .filter(([, length]) => length / total >= MIN_LANGUAGE_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .map(([language]) => language);
+}
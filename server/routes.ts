@@ -2,45 +2,143 @@
  * API routes for the Document Text Extractor application
  * 
  * Handles:
- * - File upload and processing
- * - Text extraction from PDFs and images
+ * - File upload and processing, synchronously or as background jobs
+ * - ZIP uploads, expanded into a batch of documents
+ * - Text extraction through the extractor registry
+ * - Reporting of supported file formats
  * - Age calculation from date of birth
- * - Document storage and retrieval
+ * - Document storage, retrieval, listing and full-text search
  */
 
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { uploadSchema } from "@shared/schema";
+import { createHash } from "crypto";
+import { storage, type DocumentCursor, type NewDocumentPage } from "./storage";
+import { JobQueue } from "./jobs";
+import { log } from "./vite";
+import { detectLanguages } from "./language-detection";
+import { scanner, MalwareDetectedError, MalwareScanError } from "./scanner";
+import { blobStore } from "./blob-store";
+import {
+  expandArchive,
+  isArchiveType,
+  isZipArchive,
+  ArchiveError,
+  ARCHIVE_MIME_TYPES,
+  ARCHIVE_EXTENSIONS,
+  DEFAULT_ARCHIVE_LIMITS,
+} from "./archive";
+import {
+  uploadSchema,
+  documentListQuerySchema,
+  searchQuerySchema,
+  preprocessingSteps,
+  type InsertDocument,
+  type ProcessedDocument,
+  type ProcessingJob,
+  type UploadData,
+  type DocumentSortColumn,
+  type ExtractionProgress,
+  type Capabilities,
+  type DocumentBatch,
+  type SkippedEntry,
+  type OcrLayout,
+} from "@shared/schema";
+import {
+  getExtractor,
+  listExtractors,
+  detectFileType,
+  isSameFileType,
+  listOcrLanguages,
+  findUnavailableLanguages,
+  preprocessImage,
+  applyExifOrientation,
+  raceAbort,
+  ExtractionTimeoutError,
+  OfficeDocumentError,
+  ImageDecodeError,
+  type Extractor,
+  type ExtractOptions,
+  type ExtractionResult,
+  type ExtractionTimeout,
+  type ExtractionOption,
+} from "./extractors";
 import multer from "multer";
-import Tesseract from "tesseract.js";
-import { createRequire } from 'module';
-const require = createRequire(import.meta.url);
-const pdfParse = require("pdf-parse");
 import { z } from "zod";
 
+// Maximum accepted upload size in bytes
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Maximum number of files accepted by one batch upload
+const MAX_BATCH_FILES = 20;
+
+// Time budget for extractors that do not declare their own
+const DEFAULT_EXTRACTION_TIMEOUT: ExtractionTimeout = { baseMs: 60 * 1000, perMegabyteMs: 60 * 1000 };
+
+// Multiplier applied to every extraction time budget, e.g. 2 on a slow host
+const EXTRACTION_TIMEOUT_SCALE = Number(process.env.EXTRACTION_TIMEOUT_SCALE) || 1;
+
+// Types clients declare for files they cannot identify, e.g. browsers without
+// an entry for HEIC; such files are typed from their content alone
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
 /**
  * Configure multer middleware for handling file uploads
  * - Stores files in memory for processing
  * - Limits file size to 10MB
- * - Only allows PDF files and images (JPG, PNG)
+ * - Only allows file types with a registered extractor, ZIP archives, and
+ *   files of unknown type, whose content is checked once received
  */
 const upload = multer({
   storage: multer.memoryStorage(), // Store files in memory for immediate processing
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB maximum file size
+    fileSize: MAX_FILE_SIZE, // 10MB maximum file size
   },
   fileFilter: (req: any, file: any, cb: any) => {
-    // Only allow specific file types for security and compatibility
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf'];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Only allow file types an extractor can handle, archives of them, and
+    // files the client could not identify (verifyFileType decides on those)
+    if (getExtractor(file.mimetype) || isArchiveType(file.mimetype) || GENERIC_MIME_TYPES.includes(file.mimetype)) {
       cb(null, true); // Accept the file
     } else {
-      cb(new Error('Invalid file type. Only PDF and images (JPG, PNG) are allowed.'));
+      const labels = [...listExtractors().map((extractor) => extractor.label), 'ZIP'];
+      cb(new Error(`Invalid file type. Only ${labels.join(', ')} are allowed.`));
     }
   },
 });
 
+/**
+ * Check an uploaded file's content against the MIME type the client declared
+ * The upload filter only sees the declared type, so a renamed file would
+ * otherwise reach the wrong extractor
+ *
+ * @param file - Uploaded file from multer
+ * @returns The detected MIME type, or undefined if the content does not match
+ *          (or, for a file of unknown type, is not supported)
+ */
+function verifyFileType(file: any): string | undefined {
+  if (GENERIC_MIME_TYPES.includes(file.mimetype)) {
+    return detectFileType(file.buffer) ?? (isZipArchive(file.buffer) ? ARCHIVE_MIME_TYPES[0] : undefined);
+  }
+  // Archives are expanded rather than extracted, so no extractor detects them
+  if (isArchiveType(file.mimetype)) {
+    return isZipArchive(file.buffer) ? ARCHIVE_MIME_TYPES[0] : undefined;
+  }
+  const detected = detectFileType(file.buffer);
+  return detected && isSameFileType(file.mimetype, detected) ? detected : undefined;
+}
+
+/**
+ * Explain why a file failed verifyFileType
+ *
+ * @param declared - MIME type the client declared
+ */
+function typeMismatchMessage(declared: string): string {
+  if (GENERIC_MIME_TYPES.includes(declared)) {
+    return 'File content is not of a supported type';
+  }
+  return `File content does not match its declared type ${declared}`;
+}
+
 /**
  * Calculate a person's age based on their date of birth
  * Accounts for whether their birthday has occurred this year
@@ -65,28 +163,576 @@ function calculateAge(dateOfBirth: string): number {
 }
 
 /**
- * Extract text content from uploaded files using appropriate parsing libraries
- * Supports PDF files and images (JPG, PNG)
+ * Combine the OCR confidence of each page into one score for the document
+ * Pages are weighted by their number of recognised words
+ *
+ * @param pages - Extracted or stored pages, of which only OCR'd pages are considered
+ * @returns Mean word confidence (0-100), or null if no page was OCR'd
+ */
+function overallConfidence(pages: { confidence?: number | null; layout?: OcrLayout | null }[] = []): number | null {
+  let words = 0;
+  let total = 0;
+  for (const page of pages) {
+    if (typeof page.confidence !== 'number' || !page.layout) continue;
+    const count = page.layout.lines.reduce((sum, line) => sum + line.words.length, 0);
+    words += count;
+    total += page.confidence * count;
+  }
+  return words > 0 ? total / words : null;
+}
+
+// OCR results with a lower mean word confidence are retried in the detected language
+const OCR_RETRY_CONFIDENCE = 70;
+
+/**
+ * Pick the OCR language to retry a low-confidence pass with
+ *
+ * @param detected - Languages detected in the first pass's text
+ * @param ocrLanguage - Language(s) the first pass used
+ * @returns Language(s) to retry with, or undefined if no better choice is available
+ */
+async function chooseRetryLanguage(detected: string[], ocrLanguage: string): Promise<string | undefined> {
+  const available = new Set((await listOcrLanguages()).map(({ code }) => code));
+  const candidates = detected.filter((code) => available.has(code));
+  const used = ocrLanguage.split('+');
+  if (candidates.length === 0 || candidates.every((code) => used.includes(code))) {
+    return undefined;
+  }
+  return candidates.join('+');
+}
+
+// Receives progress updates while text is being extracted
+type ProgressListener = (progress: ExtractionProgress) => void;
+
+/**
+ * Time an extractor may spend on a file of the given size
+ *
+ * @param extractor - Extractor that will handle the file
+ * @param size - File size in bytes
+ * @returns Time budget in milliseconds
+ */
+function extractionTimeout(extractor: Extractor, size: number): number {
+  const { baseMs, perMegabyteMs } = extractor.timeout ?? DEFAULT_EXTRACTION_TIMEOUT;
+  return (baseMs + perMegabyteMs * (size / (1024 * 1024))) * EXTRACTION_TIMEOUT_SCALE;
+}
+
+/**
+ * Extract text content from an uploaded file with the registered extractor
+ * for its MIME type, within the extractor's time budget
  * 
  * @param file - Multer file object containing file data and metadata
- * @returns Promise resolving to extracted text content
- * @throws Error if file type is unsupported or extraction fails
+ * @param options - OCR language, preprocessing steps, progress listener and
+ *                  an optional signal that cancels the extraction
+ * @returns Promise resolving to extracted text content, with per-page
+ *          results for paged formats
+ * @throws ExtractionTimeoutError if the time budget runs out, the signal's
+ *         reason if it is aborted, OfficeDocumentError if an office document
+ *         cannot be read safely, ImageDecodeError if an image cannot be
+ *         decoded, or Error if the file type is unsupported or extraction fails
  */
-async function extractTextFromFile(file: any): Promise<string> {
+async function extractTextFromFile(file: any, options: ExtractOptions): Promise<ExtractionResult> {
+  const extractor = getExtractor(file.mimetype);
+  if (!extractor) {
+    throw new Error('Text extraction failed: Unsupported file type');
+  }
+
+  // Stop on whichever comes first: the time budget running out or the caller cancelling
+  const timeout = extractionTimeout(extractor, file.buffer.length);
+  const timer = new AbortController();
+  const timerId = setTimeout(() => timer.abort(new ExtractionTimeoutError(timeout)), timeout);
+  const signal = options.signal ? AbortSignal.any([options.signal, timer.signal]) : timer.signal;
+
   try {
-    if (file.mimetype === 'application/pdf') {
-      // Use pdf-parse library to extract text from PDF files
-      const pdfData = await pdfParse(file.buffer);
-      return pdfData.text;
-    } else if (file.mimetype.startsWith('image/')) {
-      // Use Tesseract.js OCR to extract text from images
-      const result = await Tesseract.recognize(file.buffer, 'eng');
-      return result.data.text;
-    } else {
-      throw new Error('Unsupported file type');
-    }
+    return await raceAbort(extractor.extract(file.buffer, { ...options, signal }), signal);
   } catch (error: any) {
+    if (signal.aborted) throw signal.reason;
+    if (error instanceof OfficeDocumentError || error instanceof ImageDecodeError) throw error;
     throw new Error(`Text extraction failed: ${error.message}`);
+  } finally {
+    clearTimeout(timerId);
+  }
+}
+
+/**
+ * Document fields and pages produced by extracting a file
+ */
+type Extraction = Pick<
+  InsertDocument,
+  'extractedText' | 'pageCount' | 'ocrPages' | 'confidence' | 'ocrLanguage' | 'detectedLanguages' | 'preprocessing'
+> & {
+  pages?: NewDocumentPage[];
+  skippedEntries?: SkippedEntry[]; // Files of an archive left out of its combined extraction
+};
+
+/**
+ * Key identifying a file together with the options that affect its extraction
+ * Uploads with equal keys produce the same text, so the first one's can be reused.
+ * Options the file's extractor ignores are left out, so a DOCX uploaded with
+ * another OCR language still matches; archives may hold files of any type,
+ * so every option counts for them.
+ *
+ * @param contentHash - SHA-256 of the file
+ * @param mimetype - Verified MIME type of the file
+ * @param data - Validated form data
+ * @returns Hex-encoded SHA-256 key
+ */
+function extractionKey(contentHash: string, mimetype: string, data: UploadData): string {
+  const used: ExtractionOption[] = getExtractor(mimetype)?.extractionOptions ?? ['language', 'preprocessing'];
+  const options = {
+    contentHash,
+    language: used.includes('language') ? data.language : undefined,
+    preprocessing: used.includes('preprocessing')
+      ? preprocessingSteps.filter((step) => data.preprocessing.includes(step))
+      : undefined,
+  };
+  return createHash('sha256').update(JSON.stringify(options)).digest('hex');
+}
+
+/**
+ * Extract text from an uploaded file and detect its language
+ *
+ * @param file - Multer-style file object (buffer, originalname, mimetype)
+ * @param data - Validated form data
+ * @param onProgress - Optional listener for extraction progress updates
+ * @param signal - Optional signal that cancels extraction
+ * @returns Promise resolving to the extracted text, pages and OCR details
+ */
+async function extractDocument(
+  file: any,
+  data: UploadData,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal,
+): Promise<Extraction> {
+  let language = data.language;
+  const options = { preprocessing: data.preprocessing, onProgress, signal };
+  let result = await extractTextFromFile(file, { ...options, language });
+  let detectedLanguages = detectLanguages(result.text);
+
+  // OCR in the wrong language reads poorly; retry in the detected one and keep the better pass
+  const confidence = overallConfidence(result.pages);
+  if (confidence !== null && confidence < OCR_RETRY_CONFIDENCE) {
+    const retryLanguage = await chooseRetryLanguage(detectedLanguages, language);
+    if (retryLanguage) {
+      const retry = await extractTextFromFile(file, { ...options, language: retryLanguage });
+      if ((overallConfidence(retry.pages) ?? 0) > confidence) {
+        result = retry;
+        language = retryLanguage;
+        detectedLanguages = detectLanguages(retry.text);
+      }
+    }
+  }
+
+  const { text: extractedText, pages } = result;
+  const ocrPages = pages?.filter((page) => page.method === 'ocr').map((page) => page.pageNumber) ?? null;
+  const applied = new Set(pages?.flatMap((page) => page.preprocessing ?? []));
+
+  return {
+    extractedText,
+    pageCount: pages?.length ?? null,
+    ocrPages,
+    confidence: overallConfidence(pages),
+    ocrLanguage: ocrPages && ocrPages.length > 0 ? language : null,
+    detectedLanguages,
+    preprocessing: ocrPages && ocrPages.length > 0 ? preprocessingSteps.filter((step) => applied.has(step)) : null,
+    pages: pages?.map((page) => ({ ...page, charCount: page.text.length })),
+  };
+}
+
+/**
+ * Copy the extraction of an earlier document, pages included
+ *
+ * @param document - Document extracted from the same file with the same options
+ * @returns Promise resolving to its text, pages and OCR details, and for a
+ *          combined archive the files its batch records as skipped
+ */
+async function reuseExtraction(document: ProcessedDocument): Promise<Extraction> {
+  const summaries = await storage.getDocumentPages(document.id);
+  const pages = await Promise.all(summaries.map(async (summary) => {
+    const { id, documentId, ...page } = (await storage.getDocumentPage(document.id, summary.pageNumber))!;
+    return page;
+  }));
+  const batch = isArchiveType(document.fileType) && document.batchId !== null
+    ? await storage.getBatch(document.batchId)
+    : undefined;
+
+  return {
+    extractedText: document.extractedText,
+    pageCount: document.pageCount,
+    ocrPages: document.ocrPages,
+    confidence: document.confidence,
+    ocrLanguage: document.ocrLanguage,
+    detectedLanguages: document.detectedLanguages,
+    preprocessing: document.preprocessing,
+    pages,
+    skippedEntries: batch?.skippedEntries,
+  };
+}
+
+// Reason recorded for archive files no extractor can read
+const UNSUPPORTED_ENTRY = 'Unsupported file type';
+
+/**
+ * Expand an uploaded archive and pick out the files an extractor can read
+ *
+ * @param buffer - Raw contents of the archive
+ * @returns Multer-style file objects of the supported files, typed from
+ *          their content, and the files skipped as unsupported
+ * @throws ArchiveError if the archive is unreadable, breaks a limit or
+ *         holds no supported files
+ */
+function readArchive(buffer: Buffer): { files: any[]; skipped: SkippedEntry[] } {
+  const files = [];
+  const skipped: SkippedEntry[] = [];
+  for (const { path, data } of expandArchive(buffer)) {
+    const mimetype = detectFileType(data);
+    if (mimetype) {
+      files.push({ buffer: data, originalname: path, mimetype });
+    } else {
+      skipped.push({ path, reason: UNSUPPORTED_ENTRY });
+    }
+  }
+
+  if (files.length === 0) {
+    throw new ArchiveError('The archive contains no supported files');
+  }
+  return { files, skipped };
+}
+
+/**
+ * Tag the progress updates of one file of an archive with its position
+ *
+ * @param onProgress - Listener for the whole archive, if any
+ * @param entry - 1-based position of the file among those processed
+ * @param entryCount - Number of files processed
+ */
+function entryProgress(onProgress: ProgressListener | undefined, entry: number, entryCount: number): ProgressListener | undefined {
+  return onProgress && ((progress) => onProgress({ ...progress, entry, entryCount }));
+}
+
+/**
+ * Merge the extractions of several files into one document's
+ * Pages are numbered through in file order; files without pages, such as
+ * DOCX, contribute their text as a single page
+ *
+ * @param parts - Extraction of each file, in order
+ * @returns Combined text, pages and OCR details
+ */
+function combineExtractions(parts: Extraction[]): Extraction {
+  const pages: NewDocumentPage[] = [];
+  for (const part of parts) {
+    const partPages: NewDocumentPage[] = part.pages ?? [
+      { pageNumber: 1, text: part.extractedText, method: 'text-layer', charCount: part.extractedText.length },
+    ];
+    for (const page of partPages) {
+      pages.push({ ...page, pageNumber: pages.length + 1 });
+    }
+  }
+
+  const extractedText = parts.map((part) => part.extractedText).join('\n\n');
+  const ocrPages = pages.filter((page) => page.method === 'ocr').map((page) => page.pageNumber);
+  const ocrParts = parts.filter((part) => part.ocrLanguage);
+  const languages = new Set(ocrParts.flatMap((part) => part.ocrLanguage!.split('+')));
+  const applied = new Set(ocrParts.flatMap((part) => part.preprocessing ?? []));
+
+  return {
+    extractedText,
+    pageCount: pages.length,
+    ocrPages,
+    confidence: overallConfidence(pages),
+    ocrLanguage: languages.size > 0 ? Array.from(languages).join('+') : null,
+    detectedLanguages: detectLanguages(extractedText),
+    preprocessing: ocrPages.length > 0 ? preprocessingSteps.filter((step) => applied.has(step)) : null,
+    pages,
+  };
+}
+
+/**
+ * Extract every supported file of an archive into a single document's
+ * text and pages, in archive order
+ * Images that turn out not to decode are skipped as unsupported, like
+ * files of other types
+ *
+ * @param file - Multer-style file object of the archive
+ * @param data - Validated form data
+ * @param onProgress - Optional listener for extraction progress updates
+ * @param signal - Optional signal that cancels extraction
+ * @returns Promise resolving to the combined text, pages and OCR details,
+ *          and every file left out
+ * @throws ArchiveError if no file could be read, or the first other error
+ *         any file's extraction raises
+ */
+async function extractArchive(
+  file: any,
+  data: UploadData,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal,
+): Promise<Extraction> {
+  const { files, skipped } = readArchive(file.buffer);
+  const parts: Extraction[] = [];
+  for (let i = 0; i < files.length; i++) {
+    try {
+      parts.push(await extractDocument(files[i], data, entryProgress(onProgress, i + 1, files.length), signal));
+    } catch (error) {
+      if (!(error instanceof ImageDecodeError)) throw error;
+      skipped.push({ path: files[i].originalname, reason: UNSUPPORTED_ENTRY });
+    }
+  }
+
+  if (parts.length === 0) {
+    throw new ArchiveError('The archive contains no supported files');
+  }
+  return { ...combineExtractions(parts), skippedEntries: skipped };
+}
+
+/**
+ * Extract text from an uploaded file and store the resulting document
+ * Shared by synchronous uploads and background jobs. Files are scanned
+ * for malware first; infected ones are stored as quarantined documents
+ * without any extraction. A file already extracted with the same options
+ * reuses that extraction instead of running it again; the new document
+ * records it in duplicateOf.
+ *
+ * @param file - Multer-style file object (buffer, originalname, mimetype)
+ * @param data - Validated form data
+ * @param onProgress - Optional listener for extraction progress updates
+ * @param signal - Optional signal that cancels processing
+ * @param batchId - Batch of the ZIP upload the file belongs to, if any. A
+ *                  ZIP file itself is extracted as one combined document.
+ * @returns Promise resolving to the stored document
+ * @throws MalwareDetectedError once an infected file has been quarantined,
+ *         MalwareScanError if the file could not be scanned,
+ *         ExtractionTimeoutError if extraction runs out of time, or the
+ *         signal's reason if it is aborted before the document is stored
+ */
+async function processDocument(
+  file: any,
+  data: UploadData,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal,
+  batchId?: number,
+): Promise<ProcessedDocument> {
+  // Check the file for malware before any extractor parses it
+  onProgress?.({ stage: 'scanning', progress: 0 });
+  const scan = await raceAbort(scanner.scan(file.buffer), signal);
+  onProgress?.({ stage: 'scanning', progress: 1 });
+  signal?.throwIfAborted();
+
+  const contentHash = createHash('sha256').update(file.buffer).digest('hex');
+  const person = {
+    firstName: data.firstName,
+    lastName: data.lastName,
+    dateOfBirth: data.dateOfBirth,
+    fullName: `${data.firstName} ${data.lastName}`, // Combine first and last name
+    age: calculateAge(data.dateOfBirth), // Calculate user's current age from date of birth
+    fileName: file.originalname,
+    fileType: file.mimetype,
+    contentHash,
+    batchId: batchId ?? null,
+  };
+
+  // Keep infected files for inspection, apart from clean ones and
+  // without text or an extraction key to reuse
+  if (scan?.threat) {
+    const blobKey = `quarantine/${contentHash}`;
+    await blobStore.put(blobKey, file.buffer, file.mimetype);
+    const quarantined = await storage.createDocument({
+      ...person,
+      extractedText: '',
+      scanStatus: 'quarantined',
+      scanThreat: scan.threat,
+      blobKey,
+    });
+    log(`quarantined upload ${file.originalname} as document ${quarantined.id}: ${scan.threat}`, 'scanner');
+    throw new MalwareDetectedError(scan.threat, quarantined.id);
+  }
+
+  // Reuse an earlier extraction of the same bytes and options, if any
+  const key = extractionKey(contentHash, file.mimetype, data);
+  const original = await storage.findDocumentByExtractionKey(key);
+  const { pages, skippedEntries, ...extraction } = original
+    ? await reuseExtraction(original)
+    : await (isArchiveType(file.mimetype) ? extractArchive : extractDocument)(file, data, onProgress, signal);
+
+  // Nothing is stored for cancelled work
+  signal?.throwIfAborted();
+
+  // A combined archive's batch also lists the files its extraction left out
+  if (batchId !== undefined && skippedEntries) {
+    await storage.updateBatch(batchId, { skippedEntries });
+  }
+
+  // Keep the original file so it can be downloaded or extracted again later;
+  // keys follow the content, so re-uploads of a file share one blob
+  const blobKey = `originals/${contentHash}`;
+  await blobStore.put(blobKey, file.buffer, file.mimetype);
+
+  // Save processed document to storage, with per-page results when available
+  const document = await storage.createDocument({
+    ...person,
+    ...extraction,
+    extractionKey: key,
+    duplicateOf: original?.id ?? null,
+    scanStatus: scan ? 'clean' : 'unscanned',
+    blobKey,
+  }, pages);
+  return document;
+}
+
+/**
+ * Turn a ZIP upload into a batch of documents
+ * In separate mode each supported file is processed as an upload of its
+ * own; a file that fails, infected ones included, is recorded as skipped
+ * and the others carry on. In combined mode the archive becomes a single
+ * document, and any failure fails the upload.
+ *
+ * @param file - Multer-style file object of the archive
+ * @param data - Validated form data, whose archiveMode picks the mode
+ * @param onProgress - Optional listener for progress updates, tagged with
+ *                     the file of the archive they concern
+ * @param signal - Optional signal that cancels processing
+ * @returns Promise resolving to the batch and its documents
+ * @throws ArchiveError if the archive is unreadable, breaks a limit or holds
+ *         no supported files, before anything is stored;
+ *         MalwareScanError if a file could not be scanned; the errors of
+ *         processDocument in combined mode; or the signal's reason if it is
+ *         aborted. Documents stored before a failure stay in the batch.
+ */
+async function processArchive(
+  file: any,
+  data: UploadData,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal,
+): Promise<{ batch: DocumentBatch; documents: ProcessedDocument[] }> {
+  const { files, skipped } = readArchive(file.buffer);
+  const batch = await storage.createBatch({
+    fileName: file.originalname,
+    mode: data.archiveMode,
+    skippedEntries: skipped,
+  });
+
+  if (data.archiveMode === 'combined') {
+    const document = await processDocument(file, data, onProgress, signal, batch.id);
+    return { batch: await storage.getBatch(batch.id) ?? batch, documents: [document] };
+  }
+
+  const documents: ProcessedDocument[] = [];
+  const failed: SkippedEntry[] = [];
+  for (let i = 0; i < files.length; i++) {
+    try {
+      const progress = entryProgress(onProgress, i + 1, files.length);
+      documents.push(await processDocument(files[i], data, progress, signal, batch.id));
+    } catch (error: any) {
+      // Cancellation and an unreachable scanner stop the whole archive
+      if (signal?.aborted || error instanceof MalwareScanError) throw error;
+      const reason = error instanceof ImageDecodeError ? UNSUPPORTED_ENTRY : error.message;
+      failed.push({ path: files[i].originalname, reason });
+    }
+  }
+
+  if (failed.length === 0) {
+    return { batch, documents };
+  }
+  const updated = await storage.updateBatch(batch.id, { skippedEntries: [...skipped, ...failed] });
+  return { batch: updated ?? batch, documents };
+}
+
+/**
+ * Read the original uploaded file of a document
+ * Documents stored before the blob store have their file in storage instead
+ *
+ * @param document - Document whose file to read
+ * @returns Promise resolving to the file contents, or undefined if it was not kept
+ */
+function readOriginalFile(document: ProcessedDocument): Promise<Buffer | undefined> {
+  return document.blobKey ? blobStore.get(document.blobKey) : storage.getDocumentFile(document.id);
+}
+
+/**
+ * Determine whether the client asked for asynchronous processing
+ * Accepts either ?async=true or an RFC 7240 "Prefer: respond-async" header
+ */
+function wantsAsync(req: Request): boolean {
+  return req.query.async === 'true' || /\brespond-async\b/.test(req.get('Prefer') ?? '');
+}
+
+/**
+ * Convert a job into its public API representation
+ * The stored file bytes are never returned
+ */
+function toJobResponse(job: ProcessingJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    documentId: job.documentId,
+    error: job.error,
+    errorCode: job.errorCode,
+    fileName: job.fileName,
+    batchId: job.batchId,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+/**
+ * Convert a batch and its documents into their public API representation
+ * Documents are summarised; their text is fetched from GET /api/document/:id
+ */
+function toBatchResponse(batch: DocumentBatch, documents: ProcessedDocument[]) {
+  return {
+    id: batch.id,
+    fileName: batch.fileName,
+    mode: batch.mode,
+    skippedEntries: batch.skippedEntries,
+    createdAt: batch.createdAt,
+    documents: documents.map((document) => ({
+      id: document.id,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      pageCount: document.pageCount,
+      confidence: document.confidence,
+      scanStatus: document.scanStatus,
+      duplicateOf: document.duplicateOf,
+    })),
+  };
+}
+
+/**
+ * Encode a listing cursor as an opaque URL-safe string
+ *
+ * @param cursor - Position of the last document on the current page
+ * @param sortBy - Column the listing is ordered by
+ * @returns Base64url-encoded cursor token
+ */
+function encodeCursor(cursor: DocumentCursor, sortBy: DocumentSortColumn): string {
+  const value = cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value;
+  const payload = JSON.stringify({ sortBy, value, id: cursor.id });
+  return Buffer.from(payload).toString("base64url");
+}
+
+/**
+ * Decode a cursor token produced by encodeCursor
+ *
+ * @param token - Cursor token from the client
+ * @param sortBy - Column the requested listing is ordered by
+ * @returns Decoded cursor, or undefined if the token is malformed or was
+ *          issued for a listing in another order
+ */
+function decodeCursor(token: string, sortBy: DocumentSortColumn): DocumentCursor | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (payload.sortBy !== sortBy || !Number.isInteger(payload.id)) {
+      return undefined;
+    }
+
+    if (sortBy === "createdAt") {
+      const createdAt = new Date(payload.value);
+      return isNaN(createdAt.getTime()) ? undefined : { value: createdAt, id: payload.id };
+    }
+    const valid = sortBy === "age" ? Number.isInteger(payload.value) : typeof payload.value === "string";
+    return valid ? { value: payload.value, id: payload.id } : undefined;
+  } catch {
+    return undefined;
   }
 }
 
@@ -98,17 +744,97 @@ async function extractTextFromFile(file: any): Promise<string> {
  * @returns HTTP server instance
  */
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Background queue for asynchronous uploads, resuming any unfinished jobs
+  const jobQueue = new JobQueue(
+    storage,
+    async (job, onProgress, signal) => {
+      const file = { buffer: job.fileData, originalname: job.fileName, mimetype: job.fileType };
+      if (isArchiveType(job.fileType)) {
+        const { batch, documents } = await processArchive(file, job, onProgress, signal);
+        return { batchId: batch.id, documentId: batch.mode === 'combined' ? documents[0].id : null };
+      }
+      const document = await processDocument(file, job, onProgress, signal);
+      return { documentId: document.id, batchId: null };
+    },
+    Number(process.env.JOB_CONCURRENCY) || 1,
+  );
+  const resumed = await jobQueue.resume();
+  if (resumed > 0) {
+    log(`resumed ${resumed} unfinished processing job(s)`, "jobs");
+  }
+
+  /**
+   * GET /api/capabilities
+   * Describe the file formats the server can extract text from
+   * 
+   * Response: { formats, maxFileSize, maxBatchFiles, archive, languages }
+   * where each format lists its MIME types and file extensions, archive
+   * describes accepted ZIP uploads and their limits, and languages lists the
+   * OCR languages
+   */
+  app.get('/api/capabilities', async (_req: Request, res: Response) => {
+    try {
+      const capabilities: Capabilities = {
+        formats: listExtractors().map(({ name, label, mimeTypes, extensions }) => ({
+          name,
+          label,
+          mimeTypes,
+          extensions,
+        })),
+        maxFileSize: MAX_FILE_SIZE,
+        maxBatchFiles: MAX_BATCH_FILES,
+        archive: {
+          label: 'ZIP',
+          mimeTypes: ARCHIVE_MIME_TYPES,
+          extensions: ARCHIVE_EXTENSIONS,
+          maxEntries: DEFAULT_ARCHIVE_LIMITS.maxEntries,
+          maxTotalSize: DEFAULT_ARCHIVE_LIMITS.maxTotalSize,
+        },
+        languages: await listOcrLanguages(),
+      };
+      res.json(capabilities);
+    } catch (error: any) {
+      console.error('Capabilities error:', error);
+      res.status(500).json({ message: 'Failed to list capabilities' });
+    }
+  });
+
   /**
    * POST /api/upload
    * Handles file upload, text extraction, and user data processing
    * 
    * Request body (multipart/form-data):
-   * - file: PDF or image file
+   * - file: PDF, image or other supported file, or a ZIP archive of them
    * - firstName: User's first name
    * - lastName: User's last name
    * - dateOfBirth: Date in YYYY-MM-DD format
+   * - language: Optional OCR language(s), e.g. "afr" or "eng+afr" (default "eng")
+   * - preprocessing: Optional comma-separated image preprocessing steps to run
+   *   before OCR (default "orientation,auto-rotate,deskew,grayscale,normalize,upscale";
+   *   an empty value turns preprocessing off)
+   * - archiveMode: Optional handling of ZIP uploads, "separate" (one document
+   *   per file, the default) or "combined" (one document for the archive)
+   * 
+   * Asynchronous mode (?async=true or "Prefer: respond-async"):
+   * responds 202 with the queued job; poll GET /api/jobs/:id for the result
+   * 
+   * Files whose content does not match their declared type are rejected
+   * with 415; the type detected from the content is the one stored
    * 
-   * Response: JSON object with extracted data and metadata
+   * Response: JSON object with extracted data and metadata, with duplicateOf
+   * set to the earlier document whose extraction was reused for a file
+   * already processed with the same options. Extraction that
+   * runs out of time responds 504 with code "EXTRACTION_TIMEOUT"; extraction
+   * stops if the client disconnects before the response. Files in which the
+   * malware scanner finds a threat respond 422 with code "MALWARE_DETECTED"
+   * and the ID of the quarantined document; 503 with code "SCAN_FAILED"
+   * means the scanner could not be reached
+   * 
+   * ZIP uploads respond with the batch of documents made from the archive,
+   * as GET /api/batches/:id does. Archives that cannot be read, break the
+   * expansion limits or hold no supported files respond 422 with code
+   * "INVALID_ARCHIVE"; DOCX and ODT files with a part too large to read
+   * respond 422 with code "INVALID_DOCUMENT"
    */
   app.post('/api/upload', upload.single('file'), async (req: Request & { file?: any }, res: Response) => {
     try {
@@ -117,29 +843,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
+      // Reject files whose content is not what their type claims,
+      // and keep the detected type from here on
+      const fileType = verifyFileType(req.file);
+      if (!fileType) {
+        return res.status(415).json({ message: typeMismatchMessage(req.file.mimetype) });
+      }
+      req.file.mimetype = fileType;
+
       // Validate user input using Zod schema
       const validatedData = uploadSchema.parse(req.body);
+
+      // Reject languages without traineddata before doing any work
+      const unavailable = await findUnavailableLanguages(validatedData.language);
+      if (unavailable.length > 0) {
+        return res.status(400).json({
+          message: `OCR language not available: ${unavailable.join(', ')}`,
+        });
+      }
+
+      // Queue the work and respond immediately when asked to
+      if (wantsAsync(req)) {
+        const job = await jobQueue.enqueue({
+          ...validatedData,
+          fileName: req.file.originalname,
+          fileType: req.file.mimetype,
+          fileData: req.file.buffer,
+        });
+        res.location(`/api/jobs/${job.id}`);
+        return res.status(202).json(toJobResponse(job));
+      }
       
-      // Extract text content from the uploaded file
-      const extractedText = await extractTextFromFile(req.file);
-      
-      // Calculate user's current age from date of birth
-      const age = calculateAge(validatedData.dateOfBirth);
-      
-      // Combine first and last name
-      const fullName = `${validatedData.firstName} ${validatedData.lastName}`;
-      
-      // Save processed document to storage
-      const document = await storage.createDocument({
-        firstName: validatedData.firstName,
-        lastName: validatedData.lastName,
-        dateOfBirth: validatedData.dateOfBirth,
-        fullName,
-        age,
-        extractedText,
-        fileName: req.file.originalname,
-        fileType: req.file.mimetype,
+      // Extract text and store the document while the client waits,
+      // stopping if the client goes away first
+      const disconnected = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) disconnected.abort();
       });
+      let document: ProcessedDocument;
+      try {
+        // Archives respond with the batch of documents made from them
+        if (isArchiveType(req.file.mimetype)) {
+          const { batch, documents } = await processArchive(req.file, validatedData, undefined, disconnected.signal);
+          return res.json(toBatchResponse(batch, documents));
+        }
+        document = await processDocument(req.file, validatedData, undefined, disconnected.signal);
+      } catch (error) {
+        if (disconnected.signal.aborted) return;
+        throw error;
+      }
       
       // Return processed results to client
       res.json({
@@ -149,6 +901,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         extractedText: document.extractedText,
         fileName: document.fileName,
         fileType: document.fileType,
+        pageCount: document.pageCount,
+        ocrPages: document.ocrPages,
+        confidence: document.confidence,
+        ocrLanguage: document.ocrLanguage,
+        detectedLanguages: document.detectedLanguages,
+        preprocessing: document.preprocessing,
+        duplicateOf: document.duplicateOf,
+        scanStatus: document.scanStatus,
       });
       
     } catch (error: any) {
@@ -159,6 +919,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+
+      // Report extractions that ran out of time distinctly
+      if (error instanceof ExtractionTimeoutError) {
+        return res.status(504).json({ message: error.message, code: error.code });
+      }
+
+      // Archives that are unsafe or hold nothing to process are refused
+      if (error instanceof ArchiveError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+
+      // Office documents that would expand too far are refused
+      if (error instanceof OfficeDocumentError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+
+      // Images that look supported but cannot be decoded are refused
+      if (error instanceof ImageDecodeError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+
+      // Infected files are refused, pointing at the quarantined document
+      if (error instanceof MalwareDetectedError) {
+        return res.status(422).json({ message: error.message, code: error.code, documentId: error.documentId });
+      }
+
+      // Files are not processed unscanned while the scanner is unavailable
+      if (error instanceof MalwareScanError) {
+        console.error('Upload scan error:', error);
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       
       // Log error for debugging and return generic error message
       console.error('Upload error:', error);
@@ -168,6 +959,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * POST /api/upload/batch
+   * Queue several files for background processing in one submission
+   *
+   * Request body (multipart/form-data):
+   * - files: Up to MAX_BATCH_FILES documents
+   * - firstName, lastName, dateOfBirth, language, preprocessing: As for
+   *   POST /api/upload, applied to every file
+   *
+   * Response: 202 with { files }, one entry per uploaded file in upload
+   * order, holding either its queued job or the error that kept it from
+   * being queued (such as content not matching its declared type). Follow
+   * each job through GET /api/jobs/:id or its event stream. Responds 400 if
+   * no file could be queued.
+   */
+  app.post('/api/upload/batch', upload.array('files', MAX_BATCH_FILES), async (req: Request, res: Response) => {
+    try {
+      const files = (req.files ?? []) as any[];
+      if (files.length === 0) {
+        return res.status(400).json({ message: 'No files uploaded' });
+      }
+
+      // Validate user input using Zod schema
+      const validatedData = uploadSchema.parse(req.body);
+
+      // Reject languages without traineddata before doing any work
+      const unavailable = await findUnavailableLanguages(validatedData.language);
+      if (unavailable.length > 0) {
+        return res.status(400).json({
+          message: `OCR language not available: ${unavailable.join(', ')}`,
+        });
+      }
+
+      // Queue every file that passes its checks, in upload order
+      const results = [];
+      for (const file of files) {
+        const fileType = verifyFileType(file);
+        if (!fileType) {
+          results.push({ fileName: file.originalname, error: typeMismatchMessage(file.mimetype) });
+          continue;
+        }
+        const job = await jobQueue.enqueue({
+          ...validatedData,
+          fileName: file.originalname,
+          fileType,
+          fileData: file.buffer,
+        });
+        results.push({ fileName: file.originalname, job: toJobResponse(job) });
+      }
+
+      if (results.every((result) => !result.job)) {
+        return res.status(400).json({ message: 'None of the files can be processed', files: results });
+      }
+      res.status(202).json({ files: results });
+    } catch (error: any) {
+      // Handle validation errors from Zod
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid form data',
+          errors: error.errors
+        });
+      }
+
+      console.error('Batch upload error:', error);
+      res.status(500).json({
+        message: error.message || 'Failed to queue documents'
+      });
+    }
+  });
+
   /**
    * GET /api/document/:id
    * Retrieve a previously processed document by its unique ID
@@ -199,6 +1060,398 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * GET /api/batches/:id
+   * Retrieve the batch of documents made from a ZIP upload
+   *
+   * Parameters:
+   * - id: Batch ID (integer)
+   *
+   * Response: The batch's archive name and mode, the files skipped with
+   * their reasons, and a summary of each document in creation order
+   */
+  app.get('/api/batches/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid batch ID' });
+      }
+
+      const batch = await storage.getBatch(id);
+      if (!batch) {
+        return res.status(404).json({ message: 'Batch not found' });
+      }
+
+      res.json(toBatchResponse(batch, await storage.listBatchDocuments(id)));
+    } catch (error: any) {
+      console.error('Get batch error:', error);
+      res.status(500).json({ message: 'Failed to retrieve batch' });
+    }
+  });
+
+  /**
+   * GET /api/document/:id/pages
+   * Retrieve the per-page extraction results of a document
+   * Formats without pages (e.g. DOCX) return an empty list
+   *
+   * @param id - Document ID from URL parameter
+   * @returns JSON with the pages in page order
+   */
+  app.get('/api/document/:id/pages', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid document ID' });
+      }
+
+      const document = await storage.getDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      const pages = await storage.getDocumentPages(id);
+      res.json({ pages });
+    } catch (error: any) {
+      console.error('Get document pages error:', error);
+      res.status(500).json({ message: 'Failed to retrieve document pages' });
+    }
+  });
+
+  /**
+   * GET /api/document/:id/pages/:pageNumber
+   * Retrieve a single page, including the OCR word and line geometry
+   *
+   * @param id - Document ID from URL parameter
+   * @param pageNumber - 1-based page number from URL parameter
+   * @returns JSON page with its layout (null for text-layer pages)
+   */
+  app.get('/api/document/:id/pages/:pageNumber', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pageNumber = parseInt(req.params.pageNumber);
+      if (isNaN(id) || isNaN(pageNumber)) {
+        return res.status(400).json({ message: 'Invalid document ID or page number' });
+      }
+
+      const page = await storage.getDocumentPage(id, pageNumber);
+      if (!page) {
+        return res.status(404).json({ message: 'Page not found' });
+      }
+
+      res.json(page);
+    } catch (error: any) {
+      console.error('Get document page error:', error);
+      res.status(500).json({ message: 'Failed to retrieve document page' });
+    }
+  });
+
+  /**
+   * GET /api/document/:id/pages/:pageNumber/image
+   * Serve an image of a page whose pixel coordinates match its OCR layout
+   * Image uploads are served as-is unless their EXIF tags them as turned, in
+   * which case they are turned upright as they were for OCR; PDF pages are
+   * rendered on demand. Pages OCR'd after preprocessing have the same steps
+   * replayed, as their layout refers to the processed image
+   *
+   * @param id - Document ID from URL parameter
+   * @param pageNumber - 1-based page number from URL parameter
+   * @returns The page image
+   */
+  app.get('/api/document/:id/pages/:pageNumber/image', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pageNumber = parseInt(req.params.pageNumber);
+      if (isNaN(id) || isNaN(pageNumber)) {
+        return res.status(400).json({ message: 'Invalid document ID or page number' });
+      }
+
+      const document = await storage.getDocument(id);
+      const page = document && await storage.getDocumentPage(id, pageNumber);
+      if (!document || !page) {
+        return res.status(404).json({ message: 'Page not found' });
+      }
+
+      // Combined archive documents keep the archive, not an image per page
+      if (isArchiveType(document.fileType)) {
+        return res.status(404).json({ message: 'Page images are not available for archives' });
+      }
+
+      const file = await readOriginalFile(document);
+      if (!file) {
+        return res.status(404).json({ message: 'Original file is not available' });
+      }
+
+      const extractor = getExtractor(document.fileType);
+      let image = extractor?.renderPage ? await extractor.renderPage(file, pageNumber) : file;
+      if (page.method === 'ocr' && page.preprocessing && page.preprocessing.length > 0) {
+        ({ image } = await preprocessImage(image, page.preprocessing));
+      }
+      // OCR reads images turned upright, so they are served the same way
+      if (page.method === 'ocr') {
+        image = await applyExifOrientation(image);
+      }
+
+      if (image === file) {
+        res.type(document.fileType).send(file);
+      } else {
+        res.type('png').send(image);
+      }
+    } catch (error: any) {
+      console.error('Get page image error:', error);
+      res.status(500).json({ message: 'Failed to render page image' });
+    }
+  });
+
+  /**
+   * GET /api/document/:id/file
+   * Download the original uploaded file of a document
+   *
+   * @param id - Document ID from URL parameter
+   * @returns The file with its original type and name; quarantined files
+   *          are refused with 403
+   */
+  app.get('/api/document/:id/file', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid document ID' });
+      }
+
+      const document = await storage.getDocument(id);
+      const file = document && await readOriginalFile(document);
+      if (!document || !file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      if (document.scanStatus === 'quarantined') {
+        return res.status(403).json({ message: 'File is quarantined' });
+      }
+
+      res.type(document.fileType);
+      res.attachment(document.fileName);
+      res.send(file);
+    } catch (error: any) {
+      console.error('Get document file error:', error);
+      res.status(500).json({ message: 'Failed to retrieve document file' });
+    }
+  });
+
+  /**
+   * GET /api/jobs/:id
+   * Report the status of an asynchronous processing job
+   * 
+   * Parameters:
+   * - id: Job ID (integer)
+   * 
+   * Response: Job status (queued, running, succeeded, failed or cancelled),
+   * with documentId once it has succeeded, or error and errorCode (e.g.
+   * "EXTRACTION_TIMEOUT") once it has failed; a job failed with
+   * "MALWARE_DETECTED" keeps the quarantined document's ID in documentId
+   */
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      res.json(toJobResponse(job));
+    } catch (error: any) {
+      console.error('Get job error:', error);
+      res.status(500).json({ message: 'Failed to retrieve job' });
+    }
+  });
+
+  /**
+   * POST /api/jobs/:id/cancel
+   * Cancel a queued or running job
+   * Running jobs are stopped before the response is sent; the upload file is discarded
+   * 
+   * Parameters:
+   * - id: Job ID (integer)
+   * 
+   * Response: The job afterwards, normally with status "cancelled";
+   * 409 if it had already finished
+   */
+  app.post('/api/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return res.status(409).json({ message: 'Job has already finished' });
+      }
+
+      const cancelled = await jobQueue.cancel(id);
+      res.json(toJobResponse(cancelled!));
+    } catch (error: any) {
+      console.error('Cancel job error:', error);
+      res.status(500).json({ message: 'Failed to cancel job' });
+    }
+  });
+
+  /**
+   * GET /api/jobs/:id/events
+   * Stream a job's progress as Server-Sent Events
+   * 
+   * Events:
+   * - status: Job status, sent on connect and whenever it changes
+   * - progress: Extraction stage, completion and page numbers while running
+   * 
+   * The stream closes once the job has succeeded, failed or been cancelled
+   */
+  app.get('/api/jobs/:id/events', async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid job ID' });
+    }
+
+    try {
+      if (!(await storage.getJob(id))) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+    } catch (error: any) {
+      console.error('Job events error:', error);
+      return res.status(500).json({ message: 'Failed to retrieve job' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const finish = () => {
+      unsubscribe();
+      res.end();
+    };
+    const isFinished = (job: ProcessingJob) => job.status !== 'queued' && job.status !== 'running';
+
+    // Subscribe before reading the current state so no update slips in between
+    const unsubscribe = jobQueue.subscribe(id, (event) => {
+      if (event.type === 'progress') {
+        send('progress', event.progress);
+      } else {
+        send('status', toJobResponse(event.job));
+        if (isFinished(event.job)) finish();
+      }
+    });
+    req.on('close', unsubscribe);
+
+    try {
+      const job = (await storage.getJob(id))!;
+      send('status', toJobResponse(job));
+      if (isFinished(job)) return finish();
+
+      // Bring late subscribers up to date with the latest progress
+      const progress = jobQueue.getProgress(id);
+      if (progress) {
+        send('progress', progress);
+      }
+    } catch (error: any) {
+      console.error('Job events error:', error);
+      finish();
+    }
+  });
+
+  /**
+   * GET /api/documents
+   * List processed documents in a chosen order with cursor pagination
+   *
+   * Query parameters (all optional):
+   * - cursor: nextCursor value from a previous response with the same sortBy
+   * - limit: Page size, 1-100 (default 20)
+   * - sortBy: "createdAt", "fullName", "age", "fileName" or "fileType" (default "createdAt")
+   * - sort: "asc" or "desc" (default "desc")
+   * - q: Case-insensitive text within the full name or file name
+   * - fileType, lastName: Exact filters (lastName is case-insensitive)
+   * - createdFrom, createdTo: Inclusive createdAt range (ISO dates)
+   * - minAge, maxAge: Inclusive age range
+   * - language: Detected language (ISO 639-3 code, e.g. "afr")
+   *
+   * Response: { documents, nextCursor } where nextCursor is null on the last page
+   */
+  app.get('/api/documents', async (req: Request, res: Response) => {
+    try {
+      const { cursor: token, ...query } = documentListQuerySchema.parse(req.query);
+
+      // Reject tampered or stale cursor tokens instead of silently restarting
+      const cursor = token ? decodeCursor(token, query.sortBy) : undefined;
+      if (token && !cursor) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+
+      const result = await storage.listDocuments({ ...query, cursor });
+      res.json({
+        documents: result.documents,
+        nextCursor: result.nextCursor ? encodeCursor(result.nextCursor, query.sortBy) : null,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid query parameters',
+          errors: error.errors
+        });
+      }
+
+      console.error('List documents error:', error);
+      res.status(500).json({ message: 'Failed to list documents' });
+    }
+  });
+
+  /**
+   * GET /api/search
+   * Full-text search over names, file names and extracted text
+   *
+   * Query parameters:
+   * - q: Search words and "quoted phrases"; every one must match
+   * - limit: Maximum number of hits, 1-50 (default 20)
+   *
+   * Response: { results } ordered by rank, each with a snippet in which
+   * matched words are wrapped in <mark> and </mark> markers
+   */
+  app.get('/api/search', async (req: Request, res: Response) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      const results = await storage.searchDocuments(query);
+
+      res.json({
+        results: results.map(({ document, rank, snippet }) => ({
+          id: document.id,
+          fullName: document.fullName,
+          fileName: document.fileName,
+          fileType: document.fileType,
+          createdAt: document.createdAt,
+          rank,
+          snippet,
+        })),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid search query',
+          errors: error.errors
+        });
+      }
+
+      console.error('Search error:', error);
+      res.status(500).json({ message: 'Failed to search documents' });
+    }
+  });
+
   // Create and return HTTP server instance
   const httpServer = createServer(app);
   return httpServer;
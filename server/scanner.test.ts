@@ -0,0 +1,237 @@
+/**
+ * Tests for malware scanning with ClamAV
+ *
+ * A stand-in for clamd listens on a Unix socket and answers INSTREAM
+ * commands the way clamd does, so no ClamAV installation is needed:
+ * - ClamdScanner is checked against each kind of clamd reply
+ * - The upload route is checked to quarantine an EICAR test file
+ *   without handing it to an extractor
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import net from "net";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { Extractor } from "./extractors";
+
+// The EICAR anti-virus test file, which every scanner reports as malware.
+// Assembled at runtime so scanners on developer machines leave this file alone
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$" + "EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+// Name clamd gives the EICAR test file
+const EICAR_THREAT = "Eicar-Test-Signature";
+
+// Directory holding the fake clamd socket and the local blob store
+const tempDir = mkdtempSync(path.join(tmpdir(), "scanner-test-"));
+const socketPath = path.join(tempDir, "clamd.sock");
+
+// The storage, blob store and scanner are chosen from the environment when
+// their modules load, so it is set before any of them are imported
+Object.assign(process.env, {
+  MALWARE_SCANNER: "clamd",
+  CLAMD_SOCKET: socketPath,
+  STORAGE_DRIVER: "memory",
+  BLOB_STORE: "local",
+  BLOB_STORE_PATH: path.join(tempDir, "blobs"),
+});
+const { ClamdScanner, MalwareScanError } = await import("./scanner");
+
+/**
+ * Reply the fake clamd gives for a streamed file, without clamd's null
+ * terminator; undefined leaves the connection open without replying
+ */
+type ClamdReply = (file: Buffer) => string | undefined;
+
+// Reply of a working clamd: FOUND for the EICAR file, OK for anything else
+const realisticReply: ClamdReply = (file) =>
+  file.includes(EICAR) ? `stream: ${EICAR_THREAT} FOUND` : "stream: OK";
+
+let reply: ClamdReply = realisticReply;
+let received: Buffer[] = []; // Files streamed to the fake clamd, in order
+
+/**
+ * Start a stand-in for clamd that reads zINSTREAM commands
+ * Chunks arrive as a 4-byte big-endian length followed by the data,
+ * and a zero length ends the file
+ */
+function startFakeClamd(): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let pending = Buffer.alloc(0);
+    let commandRead = false;
+    const chunks: Buffer[] = [];
+
+    socket.on("data", (data) => {
+      pending = Buffer.concat([pending, data]);
+      if (!commandRead) {
+        if (pending.length < "zINSTREAM\0".length) return;
+        assert.equal(pending.toString("latin1", 0, 10), "zINSTREAM\0");
+        pending = pending.subarray(10);
+        commandRead = true;
+      }
+
+      while (pending.length >= 4) {
+        const length = pending.readUInt32BE(0);
+        if (length === 0) {
+          const file = Buffer.concat(chunks);
+          received.push(file);
+          const answer = reply(file);
+          if (answer !== undefined) socket.end(`${answer}\0`);
+          return;
+        }
+        if (pending.length < 4 + length) return;
+        chunks.push(pending.subarray(4, 4 + length));
+        pending = pending.subarray(4 + length);
+      }
+    });
+  });
+
+  return new Promise((resolve) => server.listen(socketPath, () => resolve(server)));
+}
+
+let clamd: net.Server;
+
+before(async () => {
+  clamd = await startFakeClamd();
+});
+
+beforeEach(() => {
+  reply = realisticReply;
+  received = [];
+});
+
+after(() => {
+  clamd.close();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("ClamdScanner", () => {
+  const scanner = new ClamdScanner({ path: socketPath }, 500);
+
+  it("reports clean files", async () => {
+    assert.deepEqual(await scanner.scan(Buffer.from("Quarterly report")), { threat: null });
+  });
+
+  it("reports the threat clamd found", async () => {
+    assert.deepEqual(await scanner.scan(Buffer.from(EICAR)), { threat: EICAR_THREAT });
+  });
+
+  it("streams large files intact across chunks", async () => {
+    const file = Buffer.alloc(200 * 1024, "abc");
+    await scanner.scan(file);
+    assert.ok(received[0].equals(file));
+  });
+
+  it("fails with clamd's reason when it reports an error", async () => {
+    reply = () => "INSTREAM size limit exceeded. ERROR";
+    await assert.rejects(scanner.scan(Buffer.from("x")), (error) => {
+      assert.ok(error instanceof MalwareScanError);
+      assert.equal(error.message, "Malware scan failed: INSTREAM size limit exceeded.");
+      return true;
+    });
+  });
+
+  it("fails when clamd does not reply in time", async () => {
+    reply = () => undefined;
+    const impatient = new ClamdScanner({ path: socketPath }, 100);
+    await assert.rejects(impatient.scan(Buffer.from("x")), {
+      name: "MalwareScanError",
+      message: "Malware scan failed: clamd did not respond in time",
+    });
+  });
+
+  it("fails when clamd cannot be reached", async () => {
+    const unreachable = new ClamdScanner({ path: path.join(tempDir, "missing.sock") });
+    await assert.rejects(unreachable.scan(Buffer.from("x")), MalwareScanError);
+  });
+});
+
+describe("uploads scanned with clamd", () => {
+  let server: Server;
+  let baseUrl: string;
+  const extracted: Buffer[] = []; // Files the test extractor was asked to read
+
+  // Plain text extractor standing in for the real ones, recording what reaches it
+  const textExtractor: Extractor = {
+    name: "scanner-test-text",
+    label: "Text",
+    mimeTypes: ["text/plain"],
+    extensions: [".txt"],
+    timeout: { baseMs: 10 * 1000, perMegabyteMs: 0 },
+    detectType: () => "text/plain",
+    async extract(buffer) {
+      extracted.push(buffer);
+      return { text: buffer.toString("utf8") };
+    },
+  };
+
+  /**
+   * Upload a text file through POST /api/upload
+   */
+  async function upload(contents: string): Promise<{ status: number; body: any }> {
+    const form = new FormData();
+    form.append("file", new Blob([contents], { type: "text/plain" }), "notes.txt");
+    form.append("firstName", "Jane");
+    form.append("lastName", "Doe");
+    form.append("dateOfBirth", "1990-05-01");
+    const response = await fetch(`${baseUrl}/api/upload`, { method: "POST", body: form });
+    return { status: response.status, body: await response.json() };
+  }
+
+  before(async () => {
+    const { default: express } = await import("express");
+    const { registerRoutes } = await import("./routes");
+    const { registerExtractor } = await import("./extractors");
+    registerExtractor(textExtractor);
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    extracted.length = 0;
+  });
+
+  it("quarantines an EICAR upload without extracting it", async () => {
+    const { status, body } = await upload(EICAR);
+    assert.equal(status, 422);
+    assert.equal(body.code, "MALWARE_DETECTED");
+    assert.equal(received.length, 1);
+    assert.equal(extracted.length, 0);
+
+    const document = await (await fetch(`${baseUrl}/api/document/${body.documentId}`)).json();
+    assert.equal(document.scanStatus, "quarantined");
+    assert.equal(document.scanThreat, EICAR_THREAT);
+    assert.equal(document.extractedText, "");
+
+    const file = await fetch(`${baseUrl}/api/document/${body.documentId}/file`);
+    assert.equal(file.status, 403);
+  });
+
+  it("extracts clean uploads once scanned", async () => {
+    const { status, body } = await upload("Quarterly report");
+    assert.equal(status, 200);
+    assert.equal(body.scanStatus, "clean");
+    assert.equal(body.extractedText, "Quarterly report");
+    assert.equal(received.length, 1);
+    assert.equal(extracted.length, 1);
+  });
+
+  it("refuses uploads while clamd reports errors", async () => {
+    reply = () => "Can't allocate memory ERROR";
+    const { status, body } = await upload("Quarterly report");
+    assert.equal(status, 503);
+    assert.equal(body.code, "SCAN_FAILED");
+    assert.equal(extracted.length, 0);
+  });
+});
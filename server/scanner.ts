@@ -0,0 +1,180 @@
+/**
+ * Malware scanning of uploaded files
+ *
+ * Provides an abstraction over virus scanners with two implementations:
+ * - A no-op scanner that lets every file through unscanned (the default)
+ * - A ClamAV scanner that streams files to a clamd daemon
+ *
+ * The implementation is chosen at startup by the MALWARE_SCANNER
+ * environment variable ("none" or "clamd"). When unset, clamd is used
+ * whenever CLAMD_SOCKET or CLAMD_HOST is configured.
+ */
+
+import net from "net";
+
+// Bytes sent to clamd per INSTREAM chunk, well below its default StreamMaxLength
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+// Default TCP port of clamd
+const CLAMD_DEFAULT_PORT = 3310;
+
+// Time allowed for clamd to answer once the file has been sent
+const CLAMD_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Outcome of scanning a file
+ */
+export interface ScanResult {
+  threat: string | null; // Name of the malware found, or null if the file is clean
+}
+
+/**
+ * Contract every malware scanner implements
+ */
+export interface MalwareScanner {
+  name: string; // Identifier used in logs, e.g. "clamd"
+
+  /**
+   * Scan a file's contents
+   * @param buffer - Raw file contents
+   * @returns Promise resolving to the scan outcome, or undefined if the
+   *          scanner does not scan at all
+   * @throws MalwareScanError if the file could not be scanned
+   */
+  scan(buffer: Buffer): Promise<ScanResult | undefined>;
+}
+
+/**
+ * Raised when a scanner cannot give a verdict, e.g. because clamd is down
+ * Uploads are refused rather than processed unscanned
+ */
+export class MalwareScanError extends Error {
+  readonly code = "SCAN_FAILED"; // Reported to clients alongside the message
+
+  constructor(message: string) {
+    super(`Malware scan failed: ${message}`);
+    this.name = "MalwareScanError";
+  }
+}
+
+/**
+ * Raised when an upload contains malware
+ * The upload is kept as a quarantined document, which is not processed
+ */
+export class MalwareDetectedError extends Error {
+  readonly code = "MALWARE_DETECTED"; // Reported to clients alongside the message
+
+  /**
+   * @param threat - Name of the malware found
+   * @param documentId - ID of the quarantined document
+   */
+  constructor(readonly threat: string, readonly documentId: number) {
+    super(`File was quarantined: malware detected (${threat})`);
+    this.name = "MalwareDetectedError";
+  }
+}
+
+/**
+ * Scanner that accepts every file without looking at it
+ */
+export class NoopScanner implements MalwareScanner {
+  name = "none";
+
+  async scan(): Promise<ScanResult | undefined> {
+    return undefined;
+  }
+}
+
+/**
+ * Where a clamd daemon listens: a Unix socket path, or a TCP host and port
+ */
+export type ClamdAddress = { path: string } | { host: string; port: number };
+
+/**
+ * Scanner backed by a ClamAV daemon
+ * Files are sent with the INSTREAM command, so clamd needs no access to
+ * this server's filesystem
+ */
+export class ClamdScanner implements MalwareScanner {
+  name = "clamd";
+
+  /**
+   * @param address - Socket the daemon listens on
+   * @param timeoutMs - Time allowed for the daemon to go quiet before giving up
+   */
+  constructor(private address: ClamdAddress, private timeoutMs = CLAMD_TIMEOUT_MS) {}
+
+  async scan(buffer: Buffer): Promise<ScanResult> {
+    const reply = await this.instream(buffer);
+
+    // Replies look like "stream: OK", "stream: <name> FOUND" or "<reason> ERROR"
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) return { threat: found[1] };
+    if (reply === "stream: OK") return { threat: null };
+    throw new MalwareScanError(reply.replace(/ ERROR$/, "") || "no reply from clamd");
+  }
+
+  /**
+   * Stream a file to clamd and read its reply
+   * Each chunk is prefixed with its length as a 4-byte big-endian integer,
+   * and a zero length ends the stream
+   */
+  private instream(buffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.address);
+      const reply: Buffer[] = [];
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new MalwareScanError("clamd did not respond in time"));
+      });
+      socket.on("error", (error) => {
+        reject(error instanceof MalwareScanError ? error : new MalwareScanError(error.message));
+      });
+      socket.on("data", (data) => reply.push(data));
+      socket.on("end", () => {
+        // The "z" command prefix makes clamd terminate its reply with a null byte
+        resolve(Buffer.concat(reply).toString("utf8").replace(/\0$/, "").trim());
+        socket.end();
+      });
+
+      socket.write("zINSTREAM\0");
+      for (let offset = 0; offset < buffer.length; offset += CLAMD_CHUNK_SIZE) {
+        const chunk = buffer.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        socket.write(length);
+        socket.write(chunk);
+      }
+      socket.write(Buffer.alloc(4));
+    });
+  }
+}
+
+/**
+ * Create the scanner selected by environment configuration
+ *
+ * @returns clamd scanner when configured, otherwise the no-op scanner
+ * @throws Error if clamd is requested without an address
+ */
+function createScanner(): MalwareScanner {
+  const { CLAMD_SOCKET, CLAMD_HOST, CLAMD_PORT } = process.env;
+  const driver = process.env.MALWARE_SCANNER || (CLAMD_SOCKET || CLAMD_HOST ? "clamd" : "none");
+
+  if (driver === "clamd") {
+    if (CLAMD_SOCKET) {
+      return new ClamdScanner({ path: CLAMD_SOCKET });
+    }
+    if (!CLAMD_HOST) {
+      throw new Error("MALWARE_SCANNER=clamd requires CLAMD_SOCKET or CLAMD_HOST to be set");
+    }
+    return new ClamdScanner({ host: CLAMD_HOST, port: parseInt(CLAMD_PORT ?? "", 10) || CLAMD_DEFAULT_PORT });
+  }
+
+  if (driver !== "none") {
+    throw new Error(`Unknown MALWARE_SCANNER "${driver}". Use "none" or "clamd".`);
+  }
+  return new NoopScanner();
+}
+
+// Global scanner instance - selected at startup by MALWARE_SCANNER / CLAMD_SOCKET / CLAMD_HOST
+export const scanner = createScanner();
@@ -0,0 +1,262 @@
+/**
+ * In-memory full-text search for the Document Text Extractor application
+ *
+ * Provides:
+ * - Query parsing with support for "quoted phrases"
+ * - An inverted index with per-field term positions
+ * - TF-IDF ranking weighted by field (name > file name > text)
+ * - Highlighted snippets around the first match in the extracted text
+ *
+ * Used by MemStorage; the PostgreSQL storage relies on tsvector instead.
+ */
+
+import type { ProcessedDocument } from "@shared/schema";
+
+// Markers wrapped around matched words in search snippets
+export const HIGHLIGHT_START = "<mark>";
+export const HIGHLIGHT_END = "</mark>";
+
+// Searchable document fields and their ranking weights
+const FIELD_WEIGHTS = {
+  fullName: 1.0,
+  fileName: 0.4,
+  extractedText: 0.2,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Runs of letters and digits in any script
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Number of characters of context shown on each side of a snippet match
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * A parsed search query
+ * Every term and every phrase must match for a document to be a hit
+ */
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+/**
+ * A ranked search hit with a highlighted snippet
+ */
+export interface SearchHit {
+  id: number;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * A word and its location within the source text
+ */
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into lowercase word tokens, keeping character offsets
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    tokens.push({
+      term: match[0].toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a user query into loose terms and quoted phrases
+ * A quoted phrase containing a single word is treated as a plain term
+ *
+ * @param query - Raw query string, e.g. `invoice "due date"`
+ * @returns Parsed terms and phrases
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const terms: string[] = [];
+  const phrases: string[][] = [];
+
+  for (const match of Array.from(query.matchAll(/"([^"]*)"|[^\s"]+/g))) {
+    const words = tokenize(match[1] ?? match[0]).map((token) => token.term);
+    if (match[1] !== undefined && words.length > 1) {
+      phrases.push(words);
+    } else {
+      terms.push(...words);
+    }
+  }
+
+  return { terms, phrases };
+}
+
+/**
+ * Inverted index over processed documents
+ * Maps each term to the documents and field positions where it occurs
+ */
+export class InvertedIndex {
+  // term -> document ID -> field -> token positions
+  private postings: Map<string, Map<number, Partial<Record<SearchField, number[]>>>> = new Map();
+  private documents: Map<number, ProcessedDocument> = new Map();
+
+  /**
+   * Add a document to the index, replacing any previous version
+   */
+  add(document: ProcessedDocument): void {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+
+    for (const field of SEARCH_FIELDS) {
+      tokenize(document[field]).forEach((token, position) => {
+        let byDocument = this.postings.get(token.term);
+        if (!byDocument) {
+          byDocument = new Map();
+          this.postings.set(token.term, byDocument);
+        }
+        let byField = byDocument.get(document.id);
+        if (!byField) {
+          byField = {};
+          byDocument.set(document.id, byField);
+        }
+        (byField[field] ??= []).push(position);
+      });
+    }
+  }
+
+  /**
+   * Remove a document and all of its postings from the index
+   */
+  remove(id: number): void {
+    if (!this.documents.delete(id)) return;
+    for (const [term, byDocument] of Array.from(this.postings)) {
+      byDocument.delete(id);
+      if (byDocument.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Find documents matching every term and phrase of the query
+   *
+   * @param query - Raw query string
+   * @param limit - Maximum number of hits to return
+   * @returns Hits ordered by descending rank
+   */
+  search(query: string, limit: number): SearchHit[] {
+    const { terms, phrases } = parseQuery(query);
+    const required = Array.from(new Set([...terms, ...phrases.flat()]));
+    if (required.length === 0) return [];
+
+    // Candidates must contain every required word somewhere
+    let candidates: number[] | undefined;
+    for (const term of required) {
+      const byDocument = this.postings.get(term);
+      if (!byDocument) return [];
+      candidates = candidates
+        ? candidates.filter((id) => byDocument.has(id))
+        : Array.from(byDocument.keys());
+      if (candidates.length === 0) return [];
+    }
+
+    const hits: SearchHit[] = [];
+    for (const id of candidates!) {
+      if (!phrases.every((phrase) => this.phraseFields(id, phrase).length > 0)) {
+        continue;
+      }
+      const document = this.documents.get(id)!;
+      hits.push({
+        id,
+        rank: this.rank(id, required),
+        snippet: buildSnippet(document.extractedText, terms, phrases),
+      });
+    }
+
+    return hits.sort((a, b) => b.rank - a.rank || b.id - a.id).slice(0, limit);
+  }
+
+  /**
+   * Score a document as weighted term frequency times inverse document frequency
+   */
+  private rank(id: number, terms: string[]): number {
+    let score = 0;
+    for (const term of terms) {
+      const byDocument = this.postings.get(term)!;
+      const idf = Math.log(1 + this.documents.size / byDocument.size);
+      const byField = byDocument.get(id)!;
+      for (const field of SEARCH_FIELDS) {
+        const frequency = byField[field]?.length ?? 0;
+        score += FIELD_WEIGHTS[field] * Math.log(1 + frequency) * idf;
+      }
+    }
+    return score;
+  }
+
+  /**
+   * List the fields of a document in which the phrase occurs as consecutive words
+   */
+  private phraseFields(id: number, phrase: string[]): SearchField[] {
+    return SEARCH_FIELDS.filter((field) => {
+      const positions = phrase.map((term) => this.postings.get(term)?.get(id)?.[field] ?? []);
+      return positions[0].some((start) =>
+        positions.every((list, offset) => list.includes(start + offset)),
+      );
+    });
+  }
+}
+
+/**
+ * Build a snippet of text around the first match, with matches highlighted
+ * Falls back to the start of the text when the match is outside it
+ *
+ * @param text - Full extracted text
+ * @param terms - Loose query terms
+ * @param phrases - Quoted query phrases
+ * @returns Snippet with matched words wrapped in highlight markers
+ */
+function buildSnippet(text: string, terms: string[], phrases: string[][]): string {
+  const tokens = tokenize(text);
+  const highlighted = new Set<number>();
+
+  tokens.forEach((token, index) => {
+    if (terms.includes(token.term)) {
+      highlighted.add(index);
+    }
+    for (const phrase of phrases) {
+      if (phrase.every((term, offset) => tokens[index + offset]?.term === term)) {
+        phrase.forEach((_, offset) => highlighted.add(index + offset));
+      }
+    }
+  });
+
+  // Tokens are visited in order, so the first match is the smallest index
+  const first = highlighted.size > 0 ? highlighted.values().next().value! : Infinity;
+  const start = isFinite(first) ? Math.max(0, tokens[first].start - SNIPPET_CONTEXT) : 0;
+  const end = isFinite(first)
+    ? Math.min(text.length, tokens[first].end + SNIPPET_CONTEXT)
+    : Math.min(text.length, SNIPPET_CONTEXT * 2);
+
+  // Rebuild the window, wrapping highlighted tokens in markers
+  let snippet = "";
+  let cursor = start;
+  tokens.forEach((token, index) => {
+    if (!highlighted.has(index) || token.start < start || token.end > end) return;
+    snippet += text.slice(cursor, token.start) + HIGHLIGHT_START + text.slice(token.start, token.end) + HIGHLIGHT_END;
+    cursor = token.end;
+  });
+  snippet += text.slice(cursor, end);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return prefix + snippet.replace(/\s+/g, " ").trim() + suffix;
+}
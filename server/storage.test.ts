@@ -0,0 +1,301 @@
+/**
+ * Contract tests for the storage implementations
+ *
+ * Every IStorage implementation must behave the same, so the same tests run
+ * against each of them:
+ * - MemStorage, always
+ * - DatabaseStorage, when DATABASE_URL is set
+ *
+ * The database tests migrate the database they are given and only touch rows
+ * they create, which they delete again when done.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { like } from "drizzle-orm";
+import {
+  documentBatches,
+  processedDocuments,
+  processingJobs,
+  type InsertDocument,
+  type InsertJob,
+  type DocumentSortColumn,
+} from "@shared/schema";
+import { createDatabase } from "./db";
+import { DatabaseStorage, MemStorage, type DocumentCursor, type IStorage } from "./storage";
+
+// Prefix of the names of every row created by this run, used to find them again
+const RUN_PREFIX = `Contract${randomUUID().slice(0, 8)}`;
+
+let nameCount = 0;
+
+/**
+ * A last name no other test uses, so listings can be scoped to one test's documents
+ */
+function uniqueLastName(): string {
+  return `${RUN_PREFIX}n${nameCount++}`;
+}
+
+/**
+ * A document to insert, with every optional field left out
+ */
+function documentFor(lastName: string, overrides: Partial<InsertDocument> = {}): InsertDocument {
+  return {
+    firstName: "Ada",
+    lastName,
+    dateOfBirth: "1990-05-01",
+    fullName: `Ada ${lastName}`,
+    age: 35,
+    extractedText: "Quarterly report",
+    fileName: "report.pdf",
+    fileType: "application/pdf",
+    ...overrides,
+  };
+}
+
+/**
+ * A job to queue, with every optional field left out
+ */
+function jobFor(lastName: string): InsertJob {
+  return {
+    firstName: "Ada",
+    lastName,
+    dateOfBirth: "1990-05-01",
+    fileName: "report.pdf",
+    fileType: "application/pdf",
+  };
+}
+
+/**
+ * Page through a listing, returning the IDs of every listed document
+ */
+async function listAll(
+  storage: IStorage,
+  lastName: string,
+  sortBy: DocumentSortColumn,
+  sort: "asc" | "desc",
+): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: DocumentCursor | undefined;
+  do {
+    const page = await storage.listDocuments({ sortBy, sort, limit: 2, lastName, cursor });
+    ids.push(...page.documents.map((document) => document.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+/**
+ * Define the contract tests for one storage implementation
+ *
+ * @param getStorage - Returns the storage under test, called before each test
+ */
+function storageContract(getStorage: () => IStorage): void {
+  let storage: IStorage;
+  beforeEach(() => {
+    storage = getStorage();
+  });
+
+  it("stores documents with defaults for optional fields", async () => {
+    const created = await storage.createDocument(documentFor(uniqueLastName()));
+
+    assert.equal(created.pageCount, null);
+    assert.equal(created.ocrPages, null);
+    assert.equal(created.confidence, null);
+    assert.equal(created.duplicateOf, null);
+    assert.equal(created.batchId, null);
+    assert.equal(created.scanStatus, "unscanned");
+    assert.ok(created.createdAt instanceof Date);
+    assert.deepEqual(await storage.getDocument(created.id), created);
+  });
+
+  it("returns undefined for unknown IDs", async () => {
+    const unknownId = 2 ** 31 - 1;
+    assert.equal(await storage.getDocument(unknownId), undefined);
+    assert.equal(await storage.getDocumentPage(unknownId, 1), undefined);
+    assert.deepEqual(await storage.getDocumentPages(unknownId), []);
+    assert.equal(await storage.getBatch(unknownId), undefined);
+    assert.equal(await storage.updateBatch(unknownId, { skippedEntries: [] }), undefined);
+    assert.equal(await storage.getJob(unknownId), undefined);
+    assert.equal(await storage.updateJob(unknownId, { status: "running" }), undefined);
+  });
+
+  it("stores pages, listing them in page order without their layout", async () => {
+    const layout = {
+      lines: [{
+        text: "Hello",
+        confidence: 90,
+        bbox: { x0: 1, y0: 2, x1: 3, y1: 4 },
+        words: [{ text: "Hello", confidence: 90, bbox: { x0: 1, y0: 2, x1: 3, y1: 4 } }],
+      }],
+    };
+    const document = await storage.createDocument(documentFor(uniqueLastName(), { pageCount: 2 }), [
+      { pageNumber: 2, text: "Second", method: "text-layer", charCount: 6 },
+      { pageNumber: 1, text: "Hello", method: "ocr", charCount: 5, confidence: 90, layout, preprocessing: ["grayscale"] },
+    ]);
+
+    const pages = await storage.getDocumentPages(document.id);
+    assert.deepEqual(pages.map((page) => page.pageNumber), [1, 2]);
+    assert.ok(pages.every((page) => !("layout" in page)));
+    assert.deepEqual(pages[1], { ...pages[1], text: "Second", method: "text-layer", confidence: null, preprocessing: null });
+
+    const first = await storage.getDocumentPage(document.id, 1);
+    assert.deepEqual(first?.layout, layout);
+    assert.deepEqual(first?.preprocessing, ["grayscale"]);
+  });
+
+  it("finds the earliest document with an extraction key", async () => {
+    const extractionKey = randomUUID();
+    const lastName = uniqueLastName();
+    const original = await storage.createDocument(documentFor(lastName, { extractionKey }));
+    await storage.createDocument(documentFor(lastName, { extractionKey, duplicateOf: original.id }));
+
+    assert.equal((await storage.findDocumentByExtractionKey(extractionKey))?.id, original.id);
+    assert.equal(await storage.findDocumentByExtractionKey(randomUUID()), undefined);
+  });
+
+  it("lists documents page by page in every sort order", async () => {
+    const lastName = uniqueLastName();
+    const values = [
+      { fullName: "Cy", age: 40, fileName: "b.pdf", fileType: "application/pdf" },
+      { fullName: "Al", age: 25, fileName: "d.png", fileType: "image/png" },
+      { fullName: "Bo", age: 40, fileName: "a.pdf", fileType: "application/pdf" },
+      { fullName: "Al", age: 31, fileName: "c.odt", fileType: "application/vnd.oasis.opendocument.text" },
+      { fullName: "Di", age: 25, fileName: "e.png", fileType: "image/png" },
+    ];
+    const documents = [];
+    for (const overrides of values) {
+      documents.push(await storage.createDocument(documentFor(lastName, overrides)));
+    }
+
+    for (const sortBy of ["createdAt", "fullName", "age", "fileName", "fileType"] as const) {
+      // Documents were created in ID order, and ties are broken by ID
+      const ascending = [...documents]
+        .sort((a, b) => {
+          const x = a[sortBy]!;
+          const y = b[sortBy]!;
+          return sortBy === "createdAt" || x === y ? a.id - b.id : x < y ? -1 : 1;
+        })
+        .map((document) => document.id);
+
+      assert.deepEqual(await listAll(storage, lastName, sortBy, "asc"), ascending, `${sortBy} asc`);
+      assert.deepEqual(await listAll(storage, lastName, sortBy, "desc"), [...ascending].reverse(), `${sortBy} desc`);
+    }
+  });
+
+  it("filters listings", async () => {
+    const lastName = uniqueLastName();
+    const english = await storage.createDocument(documentFor(lastName, {
+      age: 20, fileName: "Report.pdf", detectedLanguages: ["eng"],
+    }));
+    const bilingual = await storage.createDocument(documentFor(lastName, {
+      age: 50, fileName: "scan.png", fileType: "image/png", detectedLanguages: ["afr", "eng"],
+    }));
+
+    const list = async (filters: Record<string, unknown>) => {
+      const { documents } = await storage.listDocuments({ sortBy: "createdAt", sort: "asc", limit: 10, lastName, ...filters });
+      return documents.map((document) => document.id);
+    };
+
+    assert.deepEqual(await list({ lastName: lastName.toUpperCase() }), [english.id, bilingual.id]);
+    assert.deepEqual(await list({ fileType: "image/png" }), [bilingual.id]);
+    assert.deepEqual(await list({ minAge: 30 }), [bilingual.id]);
+    assert.deepEqual(await list({ maxAge: 30 }), [english.id]);
+    assert.deepEqual(await list({ language: "afr" }), [bilingual.id]);
+    assert.deepEqual(await list({ language: "eng" }), [english.id, bilingual.id]);
+    assert.deepEqual(await list({ q: "REPORT" }), [english.id]);
+    assert.deepEqual(await list({ q: "%" }), []);
+  });
+
+  it("searches names and text, ranking name matches first", async () => {
+    const term = `zq${randomUUID().slice(0, 8)}`;
+    const lastName = uniqueLastName();
+    const inText = await storage.createDocument(documentFor(lastName, { extractedText: `The ${term} figures rose` }));
+    const inName = await storage.createDocument(documentFor(lastName, { fullName: `Ada ${term}` }));
+
+    const results = await storage.searchDocuments({ q: term, limit: 10 });
+    assert.deepEqual(results.map((result) => result.document.id), [inName.id, inText.id]);
+    assert.ok(results[1].snippet.includes(`<mark>${term}</mark>`));
+
+    const phrase = await storage.searchDocuments({ q: `"${term} figures"`, limit: 10 });
+    assert.deepEqual(phrase.map((result) => result.document.id), [inText.id]);
+    assert.deepEqual(await storage.searchDocuments({ q: `"figures ${term}"`, limit: 10 }), []);
+  });
+
+  it("stores batches and lists their documents in ID order", async () => {
+    const lastName = uniqueLastName();
+    const batch = await storage.createBatch({ fileName: `${lastName}.zip`, mode: "separate" });
+    assert.deepEqual(batch.skippedEntries, []);
+    assert.ok(batch.createdAt instanceof Date);
+
+    const first = await storage.createDocument(documentFor(lastName, { batchId: batch.id }));
+    await storage.createDocument(documentFor(lastName));
+    const second = await storage.createDocument(documentFor(lastName, { batchId: batch.id }));
+    assert.deepEqual((await storage.listBatchDocuments(batch.id)).map((document) => document.id), [first.id, second.id]);
+
+    const skippedEntries = [{ path: "notes.txt", reason: "Unsupported file type" }];
+    const updated = await storage.updateBatch(batch.id, { skippedEntries });
+    assert.deepEqual(updated, { ...batch, skippedEntries });
+    assert.deepEqual(await storage.getBatch(batch.id), updated);
+  });
+
+  it("queues jobs with defaults and updates them", async () => {
+    const fileData = Buffer.from("%PDF-1.4");
+    const job = await storage.createJob({ ...jobFor(uniqueLastName()), fileData });
+
+    assert.equal(job.status, "queued");
+    assert.equal(job.language, "eng");
+    assert.deepEqual(job.preprocessing, []);
+    assert.equal(job.archiveMode, "separate");
+    assert.equal(job.documentId, null);
+    assert.equal(job.error, null);
+    assert.ok(job.createdAt instanceof Date);
+    assert.deepEqual(Buffer.from(job.fileData!), fileData);
+
+    const document = await storage.createDocument(documentFor(job.lastName));
+    const finishedAt = new Date();
+    const updated = await storage.updateJob(job.id, { status: "succeeded", documentId: document.id, fileData: null, finishedAt });
+    assert.equal(updated?.status, "succeeded");
+    assert.equal(updated?.documentId, document.id);
+    assert.equal(updated?.fileData, null);
+    assert.equal(updated?.finishedAt?.getTime(), finishedAt.getTime());
+    assert.deepEqual(await storage.getJob(job.id), updated);
+  });
+
+  it("lists queued and running jobs in creation order", async () => {
+    const lastName = uniqueLastName();
+    const queued = await storage.createJob(jobFor(lastName));
+    const running = await storage.createJob(jobFor(lastName));
+    const failed = await storage.createJob(jobFor(lastName));
+    await storage.updateJob(running.id, { status: "running", startedAt: new Date() });
+    await storage.updateJob(failed.id, { status: "failed", error: "Broken", errorCode: "EXTRACTION_FAILED" });
+
+    // Other tests' jobs may be unfinished too, so only this test's are compared
+    const unfinished = (await storage.listUnfinishedJobs()).filter((job) => job.lastName === lastName);
+    assert.deepEqual(unfinished.map((job) => [job.id, job.status]), [[queued.id, "queued"], [running.id, "running"]]);
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage());
+});
+
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  const db = process.env.DATABASE_URL ? createDatabase(process.env.DATABASE_URL) : undefined;
+  const storage = db && new DatabaseStorage(db);
+
+  before(async () => {
+    await storage!.migrate();
+  });
+
+  after(async () => {
+    // Jobs and documents reference batches, and jobs reference documents
+    await db!.delete(processingJobs).where(like(processingJobs.lastName, `${RUN_PREFIX}%`));
+    await db!.delete(processedDocuments).where(like(processedDocuments.lastName, `${RUN_PREFIX}%`));
+    await db!.delete(documentBatches).where(like(documentBatches.fileName, `${RUN_PREFIX}%`));
+    await db!.$client.end();
+  });
+
+  storageContract(() => storage!);
+});
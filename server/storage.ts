@@ -3,10 +3,89 @@
  * 
  * Provides an abstraction layer for data persistence with multiple implementations:
  * - In-memory storage for development and testing
- * - Database storage interface for production use
+ * - PostgreSQL storage via Drizzle for production use
+ *
+ * The implementation is chosen at startup by the STORAGE_DRIVER environment
+ * variable ("memory" or "database"). When unset, database storage is used
+ * whenever DATABASE_URL is configured.
  */
 
-import { processedDocuments, type ProcessedDocument, type InsertDocument } from "@shared/schema";
+import { and, arrayContains, asc, desc, eq, getTableColumns, gte, ilike, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  processedDocuments,
+  documentPages,
+  documentFiles,
+  processingJobs,
+  documentBatches,
+  type ProcessedDocument,
+  type DocumentPage,
+  type DocumentPageSummary,
+  type InsertDocumentPage,
+  type ProcessingJob,
+  type InsertJob,
+  type InsertDocument,
+  type DocumentListQuery,
+  type DocumentSortColumn,
+  type SearchQuery,
+  type DocumentBatch,
+  type InsertBatch,
+  documentSearchVector,
+  documentCreatedAtMs,
+} from "@shared/schema";
+import { createDatabase, runMigrations, type Database } from "./db";
+import { InvertedIndex, HIGHLIGHT_START, HIGHLIGHT_END } from "./search-index";
+
+/**
+ * Position in an ordered document listing
+ * The ID breaks ties between documents with the same sort value, such as
+ * documents created in the same millisecond
+ */
+export interface DocumentCursor {
+  value: Date | string | number; // Sort column value of the last listed document
+  id: number;
+}
+
+/**
+ * Options for listing documents, with the cursor already decoded
+ */
+export type DocumentListOptions = Omit<DocumentListQuery, "cursor"> & {
+  cursor?: DocumentCursor;
+};
+
+/**
+ * A single page of listed documents
+ */
+export interface DocumentListResult {
+  documents: ProcessedDocument[];
+  nextCursor?: DocumentCursor; // Present only when more documents follow
+}
+
+/**
+ * A full-text search hit
+ * The snippet wraps matched words in <mark> and </mark> markers
+ */
+export interface SearchResult {
+  document: ProcessedDocument;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Extraction result for one page, stored alongside a new document
+ */
+export type NewDocumentPage = Omit<InsertDocumentPage, "documentId">;
+
+/**
+ * Fields of a processing job the queue may change as it runs
+ */
+export type JobUpdate = Partial<
+  Pick<ProcessingJob, "status" | "documentId" | "batchId" | "error" | "errorCode" | "fileData" | "startedAt" | "finishedAt">
+>;
+
+/**
+ * Fields of a batch that change while its archive is processed
+ */
+export type BatchUpdate = Partial<Pick<DocumentBatch, "skippedEntries">>;
 
 /**
  * Storage interface defining the contract for data persistence operations
@@ -14,11 +93,12 @@ import { processedDocuments, type ProcessedDocument, type InsertDocument } from
  */
 export interface IStorage {
   /**
-   * Create a new document record in storage
+   * Create a new document record in storage, together with its pages
    * @param document - Document data to store (without id and createdAt)
+   * @param pages - Per-page extraction results, if the format has pages
    * @returns Promise resolving to the created document with generated fields
    */
-  createDocument(document: InsertDocument): Promise<ProcessedDocument>;
+  createDocument(document: InsertDocument, pages?: NewDocumentPage[]): Promise<ProcessedDocument>;
   
   /**
    * Retrieve a document by its unique identifier
@@ -26,6 +106,108 @@ export interface IStorage {
    * @returns Promise resolving to the document or undefined if not found
    */
   getDocument(id: number): Promise<ProcessedDocument | undefined>;
+
+  /**
+   * Find the first document extracted from the same file with the same options
+   * @param extractionKey - Extraction key of the new upload
+   * @returns Promise resolving to the earliest matching document or undefined
+   */
+  findDocumentByExtractionKey(extractionKey: string): Promise<ProcessedDocument | undefined>;
+
+  /**
+   * Retrieve the per-page extraction results of a document, without OCR geometry
+   * @param documentId - Unique document identifier
+   * @returns Promise resolving to the pages in page order, empty if none were stored
+   */
+  getDocumentPages(documentId: number): Promise<DocumentPageSummary[]>;
+
+  /**
+   * Retrieve a single page of a document, including its OCR geometry
+   * @param documentId - Unique document identifier
+   * @param pageNumber - 1-based page number
+   * @returns Promise resolving to the page or undefined if not found
+   */
+  getDocumentPage(documentId: number, pageNumber: number): Promise<DocumentPage | undefined>;
+
+  /**
+   * Retrieve the original uploaded file of a document stored before files
+   * moved to the blob store; newer documents have a blobKey instead
+   * @param documentId - Unique document identifier
+   * @returns Promise resolving to the file contents or undefined if none was kept
+   */
+  getDocumentFile(documentId: number): Promise<Buffer | undefined>;
+
+  /**
+   * List documents ordered by creation time, one page at a time
+   * @param options - Filters, sort order, page size and starting cursor
+   * @returns Promise resolving to the page and the cursor of the next page
+   */
+  listDocuments(options: DocumentListOptions): Promise<DocumentListResult>;
+
+  /**
+   * Search names, file names and extracted text, best matches first
+   * @param query - Search words and "quoted phrases", plus result limit
+   * @returns Promise resolving to ranked hits with highlighted snippets
+   */
+  searchDocuments(query: SearchQuery): Promise<SearchResult[]>;
+
+  /**
+   * Create a new batch for the documents of a ZIP upload
+   * @param batch - Archive name, mode and the files skipped so far
+   * @returns Promise resolving to the created batch with generated fields
+   */
+  createBatch(batch: InsertBatch): Promise<DocumentBatch>;
+
+  /**
+   * Retrieve a batch by its unique identifier
+   * @param id - Unique batch identifier
+   * @returns Promise resolving to the batch or undefined if not found
+   */
+  getBatch(id: number): Promise<DocumentBatch | undefined>;
+
+  /**
+   * Record further skipped files of a batch
+   * @param id - Unique batch identifier
+   * @param update - Fields to change
+   * @returns Promise resolving to the updated batch or undefined if not found
+   */
+  updateBatch(id: number, update: BatchUpdate): Promise<DocumentBatch | undefined>;
+
+  /**
+   * List the documents of a batch in the order they were created
+   * @param batchId - Unique batch identifier
+   * @returns Promise resolving to the documents, empty if there are none
+   */
+  listBatchDocuments(batchId: number): Promise<ProcessedDocument[]>;
+
+  /**
+   * Create a new queued processing job
+   * @param job - Submitted form data and uploaded file
+   * @returns Promise resolving to the created job with generated fields
+   */
+  createJob(job: InsertJob): Promise<ProcessingJob>;
+
+  /**
+   * Retrieve a processing job by its unique identifier
+   * @param id - Unique job identifier
+   * @returns Promise resolving to the job or undefined if not found
+   */
+  getJob(id: number): Promise<ProcessingJob | undefined>;
+
+  /**
+   * Apply a status change or result to a processing job
+   * @param id - Unique job identifier
+   * @param update - Fields to change
+   * @returns Promise resolving to the updated job or undefined if not found
+   */
+  updateJob(id: number, update: JobUpdate): Promise<ProcessingJob | undefined>;
+
+  /**
+   * List jobs that are still queued or running, oldest first
+   * Used to resume work after a restart
+   * @returns Promise resolving to the unfinished jobs
+   */
+  listUnfinishedJobs(): Promise<ProcessingJob[]>;
 }
 
 /**
@@ -35,24 +217,60 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private documents: Map<number, ProcessedDocument>; // In-memory document store
   private currentId: number; // Auto-incrementing ID counter
+  private searchIndex: InvertedIndex; // Full-text index over stored documents
+  private pages: Map<number, DocumentPage[]>; // Pages of each document, by document ID
+  private currentPageId: number; // Auto-incrementing page ID counter
+  private jobs: Map<number, ProcessingJob>; // In-memory job store
+  private currentJobId: number; // Auto-incrementing job ID counter
+  private batches: Map<number, DocumentBatch>; // In-memory batch store
+  private currentBatchId: number; // Auto-incrementing batch ID counter
 
   constructor() {
     this.documents = new Map();
     this.currentId = 1;
+    this.searchIndex = new InvertedIndex();
+    this.pages = new Map();
+    this.currentPageId = 1;
+    this.jobs = new Map();
+    this.currentJobId = 1;
+    this.batches = new Map();
+    this.currentBatchId = 1;
   }
 
   /**
    * Create and store a new document in memory
    * Generates a unique ID and creation timestamp
    */
-  async createDocument(insertDocument: InsertDocument): Promise<ProcessedDocument> {
+  async createDocument(insertDocument: InsertDocument, pages: NewDocumentPage[] = []): Promise<ProcessedDocument> {
     const id = this.currentId++;
     const document: ProcessedDocument = {
       ...insertDocument,
       id,
+      pageCount: insertDocument.pageCount ?? null,
+      ocrPages: insertDocument.ocrPages ?? null,
+      confidence: insertDocument.confidence ?? null,
+      ocrLanguage: insertDocument.ocrLanguage ?? null,
+      detectedLanguages: insertDocument.detectedLanguages ?? null,
+      preprocessing: insertDocument.preprocessing ?? null,
+      contentHash: insertDocument.contentHash ?? null,
+      extractionKey: insertDocument.extractionKey ?? null,
+      duplicateOf: insertDocument.duplicateOf ?? null,
+      scanStatus: insertDocument.scanStatus ?? "unscanned",
+      scanThreat: insertDocument.scanThreat ?? null,
+      blobKey: insertDocument.blobKey ?? null,
+      batchId: insertDocument.batchId ?? null,
       createdAt: new Date(),
     };
     this.documents.set(id, document);
+    this.searchIndex.add(document);
+    this.pages.set(id, pages.map((page) => ({
+      ...page,
+      id: this.currentPageId++,
+      documentId: id,
+      confidence: page.confidence ?? null,
+      layout: page.layout ?? null,
+      preprocessing: page.preprocessing ?? null,
+    })));
     return document;
   }
 
@@ -62,7 +280,462 @@ export class MemStorage implements IStorage {
   async getDocument(id: number): Promise<ProcessedDocument | undefined> {
     return this.documents.get(id);
   }
+
+  /**
+   * Find the earliest document in memory with an extraction key
+   * Documents are kept in insertion order, so the first match is the earliest
+   */
+  async findDocumentByExtractionKey(extractionKey: string): Promise<ProcessedDocument | undefined> {
+    return Array.from(this.documents.values()).find((document) => document.extractionKey === extractionKey);
+  }
+
+  /**
+   * Retrieve a document's pages from memory, sorted by page number
+   */
+  async getDocumentPages(documentId: number): Promise<DocumentPageSummary[]> {
+    const pages = this.pages.get(documentId) ?? [];
+    return pages
+      .map(({ layout, ...summary }) => summary)
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+
+  /**
+   * Retrieve a single page of a document from memory
+   */
+  async getDocumentPage(documentId: number, pageNumber: number): Promise<DocumentPage | undefined> {
+    return this.pages.get(documentId)?.find((page) => page.pageNumber === pageNumber);
+  }
+
+  /**
+   * In-memory documents all keep their files in the blob store
+   */
+  async getDocumentFile(): Promise<Buffer | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Filter, sort and slice the in-memory documents
+   */
+  async listDocuments(options: DocumentListOptions): Promise<DocumentListResult> {
+    const direction = options.sort === "asc" ? 1 : -1;
+    const lastName = options.lastName?.toLowerCase();
+    const text = options.q?.toLowerCase();
+
+    const matches = Array.from(this.documents.values())
+      .filter((doc) => {
+        const createdAt = doc.createdAt!.getTime();
+        if (options.fileType && doc.fileType !== options.fileType) return false;
+        if (lastName && doc.lastName.toLowerCase() !== lastName) return false;
+        if (options.createdFrom && createdAt < options.createdFrom.getTime()) return false;
+        if (options.createdTo && createdAt > options.createdTo.getTime()) return false;
+        if (options.minAge !== undefined && doc.age < options.minAge) return false;
+        if (options.maxAge !== undefined && doc.age > options.maxAge) return false;
+        if (options.language && !doc.detectedLanguages?.includes(options.language)) return false;
+        if (text && !doc.fullName.toLowerCase().includes(text) && !doc.fileName.toLowerCase().includes(text)) {
+          return false;
+        }
+        // Skip everything up to and including the cursor position
+        if (options.cursor && direction * compareToCursor(doc, options.cursor, options.sortBy) <= 0) return false;
+        return true;
+      })
+      .sort((a, b) => direction * compareToCursor(a, positionOf(b, options.sortBy), options.sortBy));
+
+    return toPage(matches, options.limit, options.sortBy);
+  }
+
+  /**
+   * Search the in-memory inverted index
+   */
+  async searchDocuments(query: SearchQuery): Promise<SearchResult[]> {
+    return this.searchIndex.search(query.q, query.limit).map((hit) => ({
+      document: this.documents.get(hit.id)!,
+      rank: hit.rank,
+      snippet: hit.snippet,
+    }));
+  }
+
+  /**
+   * Create and store a new batch in memory
+   */
+  async createBatch(insertBatch: InsertBatch): Promise<DocumentBatch> {
+    const id = this.currentBatchId++;
+    const batch: DocumentBatch = {
+      ...insertBatch,
+      id,
+      skippedEntries: insertBatch.skippedEntries ?? [],
+      createdAt: new Date(),
+    };
+    this.batches.set(id, batch);
+    return batch;
+  }
+
+  /**
+   * Retrieve a batch from memory by ID
+   */
+  async getBatch(id: number): Promise<DocumentBatch | undefined> {
+    return this.batches.get(id);
+  }
+
+  /**
+   * Replace a batch in memory with an updated copy
+   */
+  async updateBatch(id: number, update: BatchUpdate): Promise<DocumentBatch | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch) return undefined;
+    const updated = { ...batch, ...update };
+    this.batches.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * List a batch's documents from memory in insertion order
+   */
+  async listBatchDocuments(batchId: number): Promise<ProcessedDocument[]> {
+    return Array.from(this.documents.values()).filter((document) => document.batchId === batchId);
+  }
+
+  /**
+   * Create and store a new queued job in memory
+   */
+  async createJob(insertJob: InsertJob): Promise<ProcessingJob> {
+    const id = this.currentJobId++;
+    const job: ProcessingJob = {
+      ...insertJob,
+      id,
+      status: "queued",
+      fileData: insertJob.fileData ?? null,
+      language: insertJob.language ?? "eng",
+      preprocessing: insertJob.preprocessing ?? [],
+      archiveMode: insertJob.archiveMode ?? "separate",
+      documentId: null,
+      batchId: null,
+      error: null,
+      errorCode: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  /**
+   * Retrieve a job from memory by ID
+   */
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Replace a job in memory with an updated copy
+   */
+  async updateJob(id: number, update: JobUpdate): Promise<ProcessingJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...update };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * List queued and running jobs in creation order
+   */
+  async listUnfinishedJobs(): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.id - b.id);
+  }
+}
+
+/**
+ * PostgreSQL storage implementation using Drizzle ORM
+ * Data persists across server restarts
+ */
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  /**
+   * Apply pending schema migrations before the storage is used
+   */
+  async migrate(): Promise<void> {
+    await runMigrations(this.db);
+  }
+
+  /**
+   * Insert a new document row and its page rows in one transaction
+   */
+  async createDocument(insertDocument: InsertDocument, pages: NewDocumentPage[] = []): Promise<ProcessedDocument> {
+    return this.db.transaction(async (tx) => {
+      const [document] = await tx
+        .insert(processedDocuments)
+        .values(insertDocument)
+        .returning();
+      if (pages.length > 0) {
+        await tx
+          .insert(documentPages)
+          .values(pages.map((page) => ({ ...page, documentId: document.id })));
+      }
+      return document;
+    });
+  }
+
+  /**
+   * Retrieve a document row by ID
+   */
+  async getDocument(id: number): Promise<ProcessedDocument | undefined> {
+    const [document] = await this.db
+      .select()
+      .from(processedDocuments)
+      .where(eq(processedDocuments.id, id));
+    return document;
+  }
+
+  /**
+   * Query the earliest document row with an extraction key
+   */
+  async findDocumentByExtractionKey(extractionKey: string): Promise<ProcessedDocument | undefined> {
+    const [document] = await this.db
+      .select()
+      .from(processedDocuments)
+      .where(eq(processedDocuments.extractionKey, extractionKey))
+      .orderBy(asc(processedDocuments.id))
+      .limit(1);
+    return document;
+  }
+
+  /**
+   * Query a document's page rows in page order, leaving out the layout column
+   */
+  async getDocumentPages(documentId: number): Promise<DocumentPageSummary[]> {
+    const { layout, ...summaryColumns } = getTableColumns(documentPages);
+    return this.db
+      .select(summaryColumns)
+      .from(documentPages)
+      .where(eq(documentPages.documentId, documentId))
+      .orderBy(asc(documentPages.pageNumber));
+  }
+
+  /**
+   * Retrieve a single page row by document ID and page number
+   */
+  async getDocumentPage(documentId: number, pageNumber: number): Promise<DocumentPage | undefined> {
+    const [page] = await this.db
+      .select()
+      .from(documentPages)
+      .where(and(eq(documentPages.documentId, documentId), eq(documentPages.pageNumber, pageNumber)));
+    return page;
+  }
+
+  /**
+   * Retrieve a document's file contents by document ID
+   */
+  async getDocumentFile(documentId: number): Promise<Buffer | undefined> {
+    const [file] = await this.db
+      .select({ data: documentFiles.data })
+      .from(documentFiles)
+      .where(eq(documentFiles.documentId, documentId));
+    return file?.data;
+  }
+
+  /**
+   * Query one page of documents using keyset pagination on (createdAt, id)
+   */
+  async listDocuments(options: DocumentListOptions): Promise<DocumentListResult> {
+    const { createdAt, id, age, fullName, fileName, fileType, lastName, detectedLanguages } = processedDocuments;
+    // Order and compare creation times at the precision the cursor was produced with
+    const sortColumns = { createdAt: documentCreatedAtMs(createdAt), fullName, age, fileName, fileType };
+    const pattern = options.q && `%${options.q.replace(/[\\%_]/g, "\\$&")}%`; // Escape LIKE wildcards
+    const conditions: (SQL | undefined)[] = [
+      options.fileType ? eq(fileType, options.fileType) : undefined,
+      options.lastName ? sql`lower(${lastName}) = lower(${options.lastName})` : undefined,
+      options.createdFrom ? gte(createdAt, options.createdFrom) : undefined,
+      options.createdTo ? lte(createdAt, options.createdTo) : undefined,
+      options.minAge !== undefined ? gte(age, options.minAge) : undefined,
+      options.maxAge !== undefined ? lte(age, options.maxAge) : undefined,
+      options.language ? arrayContains(detectedLanguages, [options.language]) : undefined,
+      pattern ? or(ilike(fullName, pattern), ilike(fileName, pattern)) : undefined,
+    ];
+
+    if (options.cursor) {
+      const { value } = options.cursor;
+      const column = sortColumns[options.sortBy];
+      const cursorValue = value instanceof Date ? sql`${value.toISOString()}::timestamp` : sql`${value}`;
+      conditions.push(
+        options.sort === "asc"
+          ? sql`(${column}, ${id}) > (${cursorValue}, ${options.cursor.id})`
+          : sql`(${column}, ${id}) < (${cursorValue}, ${options.cursor.id})`,
+      );
+    }
+
+    const order = options.sort === "asc" ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(processedDocuments)
+      .where(and(...conditions))
+      .orderBy(order(sortColumns[options.sortBy]), order(id))
+      .limit(options.limit + 1); // Fetch one extra row to detect a following page
+
+    return toPage(rows, options.limit, options.sortBy);
+  }
+
+  /**
+   * Search using the GIN-indexed tsvector, ranked by ts_rank
+   * websearch_to_tsquery handles "quoted phrases" natively
+   */
+  async searchDocuments(query: SearchQuery): Promise<SearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('simple', ${query.q})`;
+    const vector = documentSearchVector(processedDocuments);
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+    const rank = sql<number>`ts_rank(${vector}, ${tsQuery})`;
+    const rows = await this.db
+      .select({
+        document: processedDocuments,
+        rank,
+        snippet: sql<string>`ts_headline('simple', ${processedDocuments.extractedText}, ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(processedDocuments)
+      .where(sql`${vector} @@ ${tsQuery}`)
+      .orderBy(desc(rank), desc(processedDocuments.id))
+      .limit(query.limit);
+
+    return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+  }
+
+  /**
+   * Insert a new batch row
+   */
+  async createBatch(insertBatch: InsertBatch): Promise<DocumentBatch> {
+    const [batch] = await this.db.insert(documentBatches).values(insertBatch).returning();
+    return batch;
+  }
+
+  /**
+   * Retrieve a batch row by ID
+   */
+  async getBatch(id: number): Promise<DocumentBatch | undefined> {
+    const [batch] = await this.db.select().from(documentBatches).where(eq(documentBatches.id, id));
+    return batch;
+  }
+
+  /**
+   * Update a batch row and return the new version
+   */
+  async updateBatch(id: number, update: BatchUpdate): Promise<DocumentBatch | undefined> {
+    const [batch] = await this.db
+      .update(documentBatches)
+      .set(update)
+      .where(eq(documentBatches.id, id))
+      .returning();
+    return batch;
+  }
+
+  /**
+   * Query a batch's document rows in ID order
+   */
+  async listBatchDocuments(batchId: number): Promise<ProcessedDocument[]> {
+    return this.db
+      .select()
+      .from(processedDocuments)
+      .where(eq(processedDocuments.batchId, batchId))
+      .orderBy(asc(processedDocuments.id));
+  }
+
+  /**
+   * Insert a new queued job row
+   */
+  async createJob(insertJob: InsertJob): Promise<ProcessingJob> {
+    const [job] = await this.db.insert(processingJobs).values(insertJob).returning();
+    return job;
+  }
+
+  /**
+   * Retrieve a job row by ID
+   */
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+
+  /**
+   * Update a job row and return the new version
+   */
+  async updateJob(id: number, update: JobUpdate): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db
+      .update(processingJobs)
+      .set(update)
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  /**
+   * Query queued and running jobs in creation order
+   */
+  async listUnfinishedJobs(): Promise<ProcessingJob[]> {
+    return this.db
+      .select()
+      .from(processingJobs)
+      .where(inArray(processingJobs.status, ["queued", "running"]))
+      .orderBy(asc(processingJobs.id));
+  }
+}
+
+/**
+ * Position of a document in a listing ordered by a column
+ */
+function positionOf(document: ProcessedDocument, sortBy: DocumentSortColumn): DocumentCursor {
+  return { value: document[sortBy]!, id: document.id };
+}
+
+/**
+ * Compare a document's position in a listing against a cursor
+ * @returns Negative if the document sorts before the cursor, positive if after
+ */
+function compareToCursor(document: ProcessedDocument, cursor: DocumentCursor, sortBy: DocumentSortColumn): number {
+  const value = document[sortBy]!;
+  let order: number;
+  if (value instanceof Date) {
+    order = value.getTime() - (cursor.value as Date).getTime();
+  } else if (typeof value === "number") {
+    order = value - (cursor.value as number);
+  } else {
+    order = value < cursor.value ? -1 : value > cursor.value ? 1 : 0;
+  }
+  return order || document.id - cursor.id;
+}
+
+/**
+ * Trim sorted matches to a page and derive the next cursor from its last item
+ */
+function toPage(sorted: ProcessedDocument[], limit: number, sortBy: DocumentSortColumn): DocumentListResult {
+  const documents = sorted.slice(0, limit);
+  const last = documents[documents.length - 1];
+  const nextCursor = sorted.length > limit && last ? positionOf(last, sortBy) : undefined;
+  return { documents, nextCursor };
+}
+
+/**
+ * Create the storage implementation selected by environment configuration
+ *
+ * @returns Database storage when configured, otherwise in-memory storage
+ * @throws Error if database storage is requested without DATABASE_URL
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "database") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_DRIVER=database requires DATABASE_URL to be set");
+    }
+    return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "memory" or "database".`);
+  }
+  return new MemStorage();
 }
 
-// Global storage instance - using in-memory storage for simplicity
-export const storage = new MemStorage();
+// Global storage instance - selected at startup by STORAGE_DRIVER / DATABASE_URL
+export const storage = createStorage();
@@ -2,15 +2,106 @@
  * Database schema and validation types for the Document Text Extractor application
  * 
  * This file defines:
- * - Database table structure for processed documents
+ * - Database table structure for processed documents, their pages and files,
+ *   batches of documents from one archive, and processing jobs
  * - Validation schemas for API requests and data insertion
  * - TypeScript types for type safety across the application
  */
 
-import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, jsonb, timestamp, index, uniqueIndex, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+/**
+ * PostgreSQL bytea column holding raw binary data as a Buffer
+ */
+const bytea = customType<{ data: Buffer; driverData: Uint8Array }>({
+  dataType() {
+    return "bytea";
+  },
+  fromDriver(value) {
+    // Some drivers return a plain Uint8Array rather than a Buffer
+    return Buffer.isBuffer(value) ? value : Buffer.from(value);
+  },
+});
+
+/**
+ * Image preprocessing steps that can run before OCR, in the order they are applied
+ */
+export const preprocessingSteps = [
+  "orientation", // Apply the EXIF orientation of photos
+  "auto-rotate", // Turn sideways or upside-down pages upright, using Tesseract's orientation detection
+  "deskew", // Straighten slightly tilted text lines
+  "grayscale", // Drop colour information
+  "normalize", // Stretch contrast to the full range
+  "upscale", // Enlarge small images to a size Tesseract reads well
+  "binarize", // Convert to black and white with an automatic threshold
+] as const;
+
+/**
+ * Steps enabled on the upload form unless the user turns them off
+ * Binarisation is opt-in, as Tesseract already thresholds internally
+ */
+export const defaultPreprocessingSteps: PreprocessingStep[] = [
+  "orientation",
+  "auto-rotate",
+  "deskew",
+  "grayscale",
+  "normalize",
+  "upscale",
+];
+
+/**
+ * Display names of the preprocessing steps
+ */
+export const preprocessingStepLabels: Record<PreprocessingStep, string> = {
+  orientation: "Apply photo orientation",
+  "auto-rotate": "Turn pages upright",
+  deskew: "Straighten tilted text",
+  grayscale: "Convert to grayscale",
+  normalize: "Boost contrast",
+  upscale: "Enlarge small images",
+  binarize: "Black and white",
+};
+
+/**
+ * Malware scan outcomes of an uploaded file
+ */
+export const scanStatuses = [
+  "unscanned", // No scanner is configured
+  "clean", // Scanned and found clean
+  "quarantined", // Malware was found; the file is kept but neither processed nor served
+] as const;
+
+/**
+ * Ways a ZIP upload can be turned into documents
+ */
+export const archiveModes = [
+  "separate", // One document per supported file in the archive
+  "combined", // One document holding the pages of every supported file, in archive order
+] as const;
+
+/**
+ * A file of an uploaded archive that did not become a document
+ */
+export const skippedEntrySchema = z.object({
+  path: z.string(), // Path of the file within the archive
+  reason: z.string(), // Why it was skipped, e.g. an unsupported type or a failed extraction
+});
+
+/**
+ * Database table definition for batches of documents made from one ZIP upload
+ */
+export const documentBatches = pgTable("document_batches", {
+  id: serial("id").primaryKey(), // Auto-incrementing unique identifier
+  fileName: text("file_name").notNull(), // Original name of the uploaded archive
+  mode: text("mode", { enum: archiveModes }).notNull(), // How the archive was turned into documents
+  skippedEntries: jsonb("skipped_entries").$type<SkippedEntry[]>().notNull()
+    .default(sql`'[]'::jsonb`), // Files of the archive that did not become documents
+  createdAt: timestamp("created_at").defaultNow(), // Timestamp when the batch was created
+});
+
 /**
  * Database table definition for storing processed documents
  * Contains user information, document metadata, and extracted text
@@ -25,9 +116,169 @@ export const processedDocuments = pgTable("processed_documents", {
   extractedText: text("extracted_text").notNull(), // Text content extracted from uploaded file
   fileName: text("file_name").notNull(), // Original name of uploaded file
   fileType: text("file_type").notNull(), // MIME type of uploaded file
+  pageCount: integer("page_count"), // Number of pages, for paged formats such as PDF
+  ocrPages: integer("ocr_pages").array(), // Pages read with OCR; the rest came from the text layer
+  confidence: real("confidence"), // Mean OCR word confidence (0-100); null when no OCR was used
+  ocrLanguage: text("ocr_language"), // Tesseract language(s) used, e.g. "eng+afr"; null when no OCR was used
+  detectedLanguages: text("detected_languages").array(), // ISO 639-3 languages of the text, main language first
+  preprocessing: text("preprocessing", { enum: preprocessingSteps }).array(), // Preprocessing steps applied to any OCR'd page
+  contentHash: text("content_hash"), // SHA-256 of the uploaded file, hex-encoded
+  extractionKey: text("extraction_key"), // SHA-256 of the file and its extraction options; equal keys give equal text
+  duplicateOf: integer("duplicate_of").references((): AnyPgColumn => processedDocuments.id), // Earlier document whose extraction was reused
+  scanStatus: text("scan_status", { enum: scanStatuses }).notNull().default("unscanned"), // Malware scan outcome of the uploaded file
+  scanThreat: text("scan_threat"), // Name of the malware found when quarantined
+  blobKey: text("blob_key"), // Key of the original uploaded file in the blob store
+  batchId: integer("batch_id").references(() => documentBatches.id), // Batch of the ZIP upload the document came from
   createdAt: timestamp("created_at").defaultNow(), // Timestamp when record was created
+}, (table) => [
+  // Supports listing the documents of a batch
+  index("processed_documents_batch_id_idx").on(table.batchId, table.id),
+  // Supports finding an earlier extraction of the same file and options
+  index("processed_documents_extraction_key_idx").on(table.extractionKey, table.id),
+  // Supports filtering documents by detected language
+  index("processed_documents_detected_languages_idx").using("gin", table.detectedLanguages),
+  // Supports listing documents ordered by creation time
+  index("processed_documents_created_at_idx").on(documentCreatedAtMs(table.createdAt), table.id),
+  // Supports full-text search over names and extracted text
+  index("processed_documents_search_idx").using("gin", documentSearchVector(table)),
+]);
+
+/**
+ * How the text of a page was obtained
+ */
+export const extractionMethods = [
+  "text-layer", // Read from the file's embedded text
+  "ocr", // Recognised from an image of the page
+] as const;
+
+/**
+ * Pixel rectangle within an OCR'd image, from top-left (x0, y0) to bottom-right (x1, y1)
+ */
+export const boundingBoxSchema = z.object({
+  x0: z.number(),
+  y0: z.number(),
+  x1: z.number(),
+  y1: z.number(),
+});
+
+/**
+ * A word recognised by OCR
+ */
+export const ocrWordSchema = z.object({
+  text: z.string(),
+  confidence: z.number(), // Tesseract confidence, from 0 to 100
+  bbox: boundingBoxSchema,
+});
+
+/**
+ * A line of words recognised by OCR
+ */
+export const ocrLineSchema = z.object({
+  text: z.string(),
+  confidence: z.number(), // Tesseract confidence, from 0 to 100
+  bbox: boundingBoxSchema,
+  words: z.array(ocrWordSchema),
 });
 
+/**
+ * Word and line geometry of an OCR'd page
+ */
+export const ocrLayoutSchema = z.object({
+  lines: z.array(ocrLineSchema),
+});
+
+/**
+ * Database table definition for per-page extraction results
+ * One row per page of a paged document (PDF pages, single images)
+ */
+export const documentPages = pgTable("document_pages", {
+  id: serial("id").primaryKey(), // Auto-incrementing unique identifier
+  documentId: integer("document_id").notNull()
+    .references(() => processedDocuments.id, { onDelete: "cascade" }), // Owning document
+  pageNumber: integer("page_number").notNull(), // 1-based page number
+  text: text("text").notNull(), // Text extracted from this page
+  method: text("method", { enum: extractionMethods }).notNull(), // How the text was obtained
+  charCount: integer("char_count").notNull(), // Number of characters in the text
+  confidence: real("confidence"), // Mean OCR word confidence (0-100); null for text-layer pages
+  layout: jsonb("layout").$type<OcrLayout>(), // OCR word and line geometry; null for text-layer pages
+  preprocessing: text("preprocessing", { enum: preprocessingSteps }).array(), // Steps applied before OCR; the layout refers to the processed image
+}, (table) => [
+  uniqueIndex("document_pages_document_page_idx").on(table.documentId, table.pageNumber),
+]);
+
+/**
+ * Database table definition for the original uploaded files of documents
+ * stored before files moved to the blob store (see blobKey)
+ * Still read for those documents; new files are not written here
+ */
+export const documentFiles = pgTable("document_files", {
+  documentId: integer("document_id").primaryKey()
+    .references(() => processedDocuments.id, { onDelete: "cascade" }), // Owning document
+  data: bytea("data").notNull(), // Uploaded bytes
+});
+
+/**
+ * Lifecycle states of an asynchronous processing job
+ */
+export const jobStatuses = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+/**
+ * Database table definition for asynchronous upload processing jobs
+ * Holds the uploaded file until it has been processed so queued work
+ * survives a server restart
+ */
+export const processingJobs = pgTable("processing_jobs", {
+  id: serial("id").primaryKey(), // Auto-incrementing unique identifier
+  status: text("status", { enum: jobStatuses }).notNull().default("queued"), // Current lifecycle state
+  firstName: text("first_name").notNull(), // Submitted first name
+  lastName: text("last_name").notNull(), // Submitted last name
+  dateOfBirth: text("date_of_birth").notNull(), // Submitted date of birth (YYYY-MM-DD format)
+  fileName: text("file_name").notNull(), // Original name of uploaded file
+  fileType: text("file_type").notNull(), // MIME type of uploaded file
+  fileData: bytea("file_data"), // Uploaded bytes, cleared once the job finishes
+  language: text("language").notNull().default("eng"), // Requested OCR language(s)
+  preprocessing: text("preprocessing", { enum: preprocessingSteps }).array().notNull()
+    .default(sql`'{}'::text[]`), // Requested preprocessing steps
+  archiveMode: text("archive_mode", { enum: archiveModes }).notNull().default("separate"), // Requested handling of ZIP uploads
+  documentId: integer("document_id").references(() => processedDocuments.id), // Resulting document on success
+  batchId: integer("batch_id").references(() => documentBatches.id), // Resulting batch on success, for ZIP uploads
+  error: text("error"), // Failure reason when status is "failed"
+  errorCode: text("error_code"), // Machine-readable failure reason, e.g. "EXTRACTION_TIMEOUT"
+  createdAt: timestamp("created_at").defaultNow(), // Timestamp when the job was queued
+  startedAt: timestamp("started_at"), // Timestamp when processing began
+  finishedAt: timestamp("finished_at"), // Timestamp when processing succeeded or failed
+});
+
+/**
+ * Weighted full-text search vector for a document
+ * Name matches rank highest, then file name, then extracted text.
+ * The same expression is used by the GIN index and by search queries,
+ * which is what lets PostgreSQL use the index.
+ *
+ * @param columns - Name, file name and text columns of the documents table
+ * @returns SQL tsvector expression
+ */
+export function documentSearchVector(columns: {
+  fullName: AnyPgColumn;
+  fileName: AnyPgColumn;
+  extractedText: AnyPgColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('simple', ${columns.fullName}), 'A') || setweight(to_tsvector('simple', ${columns.fileName}), 'B') || setweight(to_tsvector('simple', ${columns.extractedText}), 'C'))`;
+}
+
+/**
+ * Creation time of a document truncated to milliseconds
+ * PostgreSQL keeps microseconds but JavaScript dates only milliseconds, so
+ * listings order and page by this expression to match the cursors they hand out.
+ * The same expression is used by the listing index.
+ *
+ * @param createdAt - Creation timestamp column of the documents table
+ * @returns SQL timestamp expression
+ */
+export function documentCreatedAtMs(createdAt: AnyPgColumn): SQL {
+  return sql`date_trunc('milliseconds', ${createdAt})`;
+}
+
 /**
  * Schema for validating data when inserting new documents
  * Excludes auto-generated fields like id and createdAt
@@ -41,6 +292,62 @@ export const insertDocumentSchema = createInsertSchema(processedDocuments).pick(
   extractedText: true,
   fileName: true,
   fileType: true,
+  pageCount: true,
+  ocrPages: true,
+  confidence: true,
+  ocrLanguage: true,
+  detectedLanguages: true,
+  preprocessing: true,
+  contentHash: true,
+  extractionKey: true,
+  duplicateOf: true,
+  scanStatus: true,
+  scanThreat: true,
+  blobKey: true,
+  batchId: true,
+});
+
+/**
+ * Schema for validating per-page results when inserting a document
+ */
+export const insertDocumentPageSchema = createInsertSchema(documentPages, {
+  layout: ocrLayoutSchema.nullish(),
+}).pick({
+  documentId: true,
+  pageNumber: true,
+  text: true,
+  method: true,
+  charCount: true,
+  confidence: true,
+  layout: true,
+  preprocessing: true,
+});
+
+/**
+ * Schema for validating data when queueing a new processing job
+ * Status, result and timestamps are managed by the job queue
+ */
+export const insertJobSchema = createInsertSchema(processingJobs).pick({
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  fileName: true,
+  fileType: true,
+  fileData: true,
+  language: true,
+  preprocessing: true,
+  archiveMode: true,
+});
+
+/**
+ * Schema for validating data when creating a batch for a ZIP upload
+ */
+export const insertBatchSchema = createInsertSchema(documentBatches, {
+  skippedEntries: z.array(skippedEntrySchema),
+}).pick({
+  fileName: true,
+  mode: true,
+  skippedEntries: true,
 });
 
 /**
@@ -51,9 +358,151 @@ export const uploadSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   dateOfBirth: z.string().min(1, "Date of birth is required"),
+  // Tesseract language code, or several joined by "+" (e.g. "eng+afr")
+  language: z.string()
+    .regex(/^[a-z_]+(\+[a-z_]+)*$/, "Language must be a code such as eng or eng+afr")
+    .default("eng"),
+  // Preprocessing steps to run before OCR; multipart forms send them comma-separated
+  preprocessing: z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(z.enum(preprocessingSteps)),
+  ).default(defaultPreprocessingSteps),
+  // How a ZIP upload becomes documents; ignored for other files
+  archiveMode: z.enum(archiveModes).default("separate"),
+});
+
+/**
+ * Columns the document listing can be ordered by
+ */
+export const documentSortColumns = [
+  "createdAt", // Processing time
+  "fullName",
+  "age",
+  "fileName",
+  "fileType",
+] as const;
+
+/**
+ * Schema for validating query parameters of the document listing endpoint
+ * Values arrive as strings, so numbers and dates are coerced
+ */
+export const documentListQuerySchema = z.object({
+  cursor: z.string().optional(), // Opaque cursor returned by the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z.enum(documentSortColumns).default("createdAt"), // Column to order by; ties are ordered by ID
+  sort: z.enum(["asc", "desc"]).default("desc"), // Direction of the order
+  q: z.string().trim().min(1).optional(), // Case-insensitive text within the full name or file name
+  fileType: z.string().optional(), // Exact MIME type match
+  lastName: z.string().optional(), // Case-insensitive match
+  createdFrom: z.coerce.date().optional(), // Inclusive lower bound on createdAt
+  createdTo: z.coerce.date().optional(), // Inclusive upper bound on createdAt
+  minAge: z.coerce.number().int().min(0).optional(),
+  maxAge: z.coerce.number().int().min(0).optional(),
+  language: z.string().optional(), // Detected ISO 639-3 language, e.g. "afr"
 });
 
+/**
+ * Schema for validating query parameters of the search endpoint
+ * Supports plain words and "quoted phrases"; all must match
+ */
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * Display names of the languages the application knows by name, keyed by
+ * ISO 639-3 code (which Tesseract also uses for most languages)
+ * Language detection only considers these languages
+ */
+export const languageNames: Record<string, string> = {
+  eng: "English",
+  afr: "Afrikaans",
+  zul: "isiZulu",
+  xho: "isiXhosa",
+  nso: "Sepedi",
+  sot: "Sesotho",
+  tsn: "Setswana",
+  fra: "French",
+  por: "Portuguese",
+  deu: "German",
+  spa: "Spanish",
+  nld: "Dutch",
+  ita: "Italian",
+};
+
+/**
+ * Stages reported while text is being extracted from a file
+ */
+export const extractionStages = [
+  "scanning", // Checking the file for malware
+  "loading-engine", // Starting the OCR engine
+  "loading-language", // Loading OCR language data
+  "preprocessing", // Preparing an image for OCR
+  "recognizing", // Running OCR over an image
+  "reading-pdf", // Reading the text layer of PDF pages
+  "reading-document", // Reading a word processor document
+] as const;
+
+/**
+ * A progress update emitted during text extraction
+ */
+export interface ExtractionProgress {
+  stage: typeof extractionStages[number];
+  progress: number; // Completion of the current stage, from 0 to 1
+  page?: number; // Page being processed (1-based), for multi-page files
+  pageCount?: number; // Total number of pages, for multi-page files
+  entry?: number; // File being processed (1-based), for ZIP uploads
+  entryCount?: number; // Total number of files processed, for ZIP uploads
+}
+
+/**
+ * File formats and limits accepted by the server, as reported by
+ * GET /api/capabilities
+ */
+export interface Capabilities {
+  formats: {
+    name: string; // Extractor identifier
+    label: string; // Human-readable format description
+    mimeTypes: string[]; // Accepted MIME types
+    extensions: string[]; // Accepted file extensions, with leading dot
+  }[];
+  maxFileSize: number; // Maximum upload size in bytes
+  maxBatchFiles: number; // Maximum number of files in one batch upload
+  archive: {
+    label: string; // Human-readable format description
+    mimeTypes: string[]; // Accepted MIME types
+    extensions: string[]; // Accepted file extensions, with leading dot
+    maxEntries: number; // Maximum number of files in one archive
+    maxTotalSize: number; // Maximum total uncompressed size of one archive, in bytes
+  }; // ZIP archives, whose supported files are each processed
+  languages: {
+    code: string; // Tesseract language code, e.g. "afr"
+    name: string; // Display name, e.g. "Afrikaans"
+  }[]; // OCR languages available on the server
+}
+
 // TypeScript types derived from schemas for type safety
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type ProcessedDocument = typeof processedDocuments.$inferSelect;
 export type UploadData = z.infer<typeof uploadSchema>;
+export type InsertDocumentPage = z.infer<typeof insertDocumentPageSchema>;
+export type DocumentPage = typeof documentPages.$inferSelect;
+export type DocumentPageSummary = Omit<DocumentPage, "layout">;
+export type ExtractionMethod = typeof extractionMethods[number];
+export type PreprocessingStep = typeof preprocessingSteps[number];
+export type ScanStatus = typeof scanStatuses[number];
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+export type OcrWord = z.infer<typeof ocrWordSchema>;
+export type OcrLine = z.infer<typeof ocrLineSchema>;
+export type OcrLayout = z.infer<typeof ocrLayoutSchema>;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type JobStatus = typeof jobStatuses[number];
+export type DocumentListQuery = z.infer<typeof documentListQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type DocumentSortColumn = typeof documentSortColumns[number];
+export type ArchiveMode = typeof archiveModes[number];
+export type SkippedEntry = z.infer<typeof skippedEntrySchema>;
+export type InsertBatch = z.infer<typeof insertBatchSchema>;
+export type DocumentBatch = typeof documentBatches.$inferSelect;